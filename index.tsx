@@ -1,79 +1,77 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { GoogleGenAI, Modality } from "@google/genai";
 import {
   Mic, MicOff, Video, VideoOff, PhoneOff, MapPin,
   AlertTriangle, Menu, X, QrCode, Activity, Pause,
   Navigation, Search, Target, Trophy, ChevronRight, Play, LogOut,
   UserPlus, Phone, Users, Copy, Check, PhoneIncoming, PhoneOutgoing,
   Camera, Image, Heart, Share2, Calendar, Clock, MapPinned,
-  Award, Sparkles, TrendingUp, Home
+  Award, Sparkles, TrendingUp, Home, Shield, History, MessageSquare,
+  LocateFixed, Accessibility, Gift, Store
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { Auth } from './src/components/Auth';
+import { DistressOverlay, IncomingSosModal } from './src/components/DistressOverlay';
+import { WellbeingView } from './src/components/WellbeingView';
+import { ScamShieldView, ScamReportDraft } from './src/components/ScamShieldView';
+import { ScamAnalysisCard } from './src/components/ScamAnalysisCard';
+import { ConversationHistoryView } from './src/components/ConversationHistoryView';
+import { TextChatView, ChatMessage } from './src/components/TextChatView';
+import { DestinationPicker } from './src/components/DestinationPicker';
+import { PointsLedgerCard } from './src/components/PointsLedgerCard';
+import { RewardsView } from './src/components/RewardsView';
+import { MerchantScanView } from './src/components/MerchantScanView';
+import { MobilityProfileView } from './src/components/MobilityProfileView';
+import { AchievementsPanel } from './src/components/AchievementsPanel';
+import {
+  SosIncident, SosLogEntry, IncomingSosAlert, SosTrigger, SosSeverity,
+  SOS_COUNTDOWN_SECONDS, SOS_LOCATION_LOG_INTERVAL_MS, SOS_VOICE_PAUSE_SECONDS,
+  createSosIncident, logSosEvent, notifySosContacts, updateSosLocation,
+  clearSosAlerts, dismissSosAlert, pickSosCallee, subscribeSosAlerts
+} from './src/services/distress';
+import { MoodReading, subscribeMoodHistory, startOfDay, toDateKey } from './src/services/moodHistory';
+import {
+  BlocklistEntry, createCommunityScamChecker, submitScamReport, subscribeScamBlocklist
+} from './src/services/scamReports';
+import { ScamAnalysis, ScamAnalysisInput, analyseScamMessage } from './src/services/scamAnalysis';
+import { captureVideoFrame } from './src/utils/frameCapture';
+import { textToBase64 } from './src/utils/textEncoding';
+import { QrScanner, isQrScanningSupported, startQrScanner } from './src/utils/qrScanner';
+import { LocationTracker, createLocationProviderFromUrl, createLocationTracker } from './src/services/location';
+import { MicCapture, startMicCapture } from './src/audio/micCapture';
+import { PlaybackQueue, createPlaybackQueue } from './src/audio/playbackQueue';
+import {
+  LiveSessionEvents, LiveSessionManager, LiveSessionStatus, createLiveSessionManager
+} from './src/services/liveSession';
+import {
+  Conversation, TranscriptRecorder, createTranscriptRecorder, subscribeConversations
+} from './src/services/conversationLog';
+import { TextChat, createTextChat } from './src/services/textChat';
+import { UserDataSync, createUserDataSync } from './src/services/userData';
+import {
+  AwardRequest, AwardResult, PointTransaction, evaluateAward, evaluateSpend, ledgerBalance
+} from './src/services/pointsLedger';
+import {
+  Reward, Voucher, lookupVoucher, redeemReward, redeemVoucher, subscribeRewardStock, subscribeVouchers
+} from './src/services/rewards';
+import { REWARD_CATALOGUE } from './src/data/rewardCatalogue';
+import { computeActivityStats, describeNewBadges, findNewBadges, levelFor } from './src/services/achievements';
+import {
+  DEFAULT_MOBILITY_PROFILE, MobilityProfile, saveMobilityProfile, subscribeMobilityProfile
+} from './src/services/mobility';
 import { getDatabase, ref, set, onValue, remove, push, onChildAdded } from 'firebase/database';
 import app from './src/firebase';
+import { CheckInPhoto, Quest, CommunityEvent, DestinationCandidate, DestinationChoice } from './src/types';
+import { generateQuestFromDestination, rerouteQuest, skipWaypointsOffRoute } from './src/services/questBuilder';
+import { NavigationEngine, createNavigationEngine, isWaypointPending } from './src/services/navigationEngine';
+import { ToolContext } from './src/tools/types';
+import { ketuaTools, respondToToolCalls } from './src/tools/registry';
+import { startQuestToCandidate } from './src/tools/questTools';
 
 // --- Configuration & Types ---
 
-interface CheckInPhoto {
-  id: string;
-  userId: string;
-  userName: string;
-  photoUrl: string;
-  timestamp: number;
-  location: { lat: number; lng: number };
-}
-
-interface Quest {
-  id: string;
-  title: string;
-  description: string;
-  destination: { lat: number; lng: number; name: string };
-  waypoints: Waypoint[];
-  reward: string;
-  distance: number;
-  duration: number;
-  progress: number;
-  status: 'active' | 'completed' | 'available';
-  type: 'exploration' | 'community' | 'emergency' | 'fitness';
-  checkIns?: CheckInPhoto[];
-  navigationSteps?: Array<{
-    instruction: string;
-    distance: string;
-    duration: string;
-  }>;
-  currentStepIndex?: number;
-}
-
-interface Waypoint {
-  id: string;
-  lat: number;
-  lng: number;
-  name: string;
-  completed: boolean;
-  type: 'checkpoint' | 'task' | 'bonus';
-  description?: string;
-  checkIns?: CheckInPhoto[];
-}
-
-interface CommunityEvent {
-  id: string;
-  name: string;
-  description: string;
-  lat: number;
-  lng: number;
-  time: string;
-  date: string;
-  reward: string;
-  category: 'social' | 'fitness' | 'arts' | 'education' | 'food';
-  participants: string[];
-  maxParticipants?: number;
-  imageUrl?: string;
-  checkIns: CheckInPhoto[];
-}
-
 interface KampungConnection {
   id: string;
   name: string;
@@ -87,6 +85,7 @@ interface CallState {
   callType: 'incoming' | 'outgoing' | null;
   remoteUserId: string | null;
   remoteUserName: string | null;
+  isSos?: boolean;
 }
 
 // WebRTC Configuration
@@ -133,14 +132,28 @@ Respond in the language that you hear
    - When user asks "where do I go?", "what's next?", "which way?": Call 'getNextNavigationStep' and read the instruction
    - When providing directions: Read out each step clearly, e.g., "Turn right at Market Street, walk 200 meters"
    - At checkpoints: "Wah steady! You reach checkpoint already! Continue straight lor"
+   - For villagers with a wheelchair, walking aid or pram, mention any accessibilityNotes and lifts from 'getActiveQuestStatus', e.g. "Got lift at Blk 5, no need to climb stairs"
+   - At rest points: "Rest here a while first, no rush ah"
    - Update progress: When user asks for directions, call 'getActiveQuestStatus' to get current step
    - When complete: "Shiok! You reach your destination! Well done!"
+5. Emergency (SOS): You can alert the villager's family and neighbours
+   - Listen for: "help", "I fell down", "chest pain", "cannot breathe", "someone is following me", or a Distressed mood that the villager confirms
+   - Call 'triggerDistressAlert' with a severity and short reason. This starts a short countdown but does NOT alert anyone yet
+   - Then ASK to confirm: "Aiyo, you want me to call your family now? Say yes or no."
+   - If they say yes (or cannot answer properly), call 'triggerDistressAlert' again with confirmed=true
+   - If they say they are okay, call 'cancelDistressAlert'
+   - Stay calm and keep talking to them until help comes
 
 Tools:
 - Use 'searchNearbyEvents' if they ask about activities ("Got what happenings?").
-- Use 'checkSuspiciousNumber' if they mention a phone number.
+- Use 'checkSuspiciousNumber' if they mention a phone number. Explain the risk level and reasons simply, e.g. "Aiyo, this one got many reports as bank impersonation lah, don't answer!".
+- Use 'analyseScamMessage' when they read out a suspicious WhatsApp/SMS, or ask you to look at a message on their screen (set useCamera=true and ask them to hold it up to the camera). Say the verdict and what to do in simple Singlish.
+- If they say a number scammed them or tried to, offer to report it. Ask what the caller or message said, then use 'reportScamNumber' so the whole kampung is warned.
 - Use 'createQuestToDestination' IMMEDIATELY when user mentions wanting to go somewhere
+- For far places it plans a bus/MRT route; read out each boarding and alighting stop clearly
+- If it returns several candidates, ask which one by address or landmark, then call 'confirmQuestDestination' with their choice
 - Use 'getActiveQuestStatus' to check progress and guide them
+- Use 'triggerDistressAlert' and 'cancelDistressAlert' for emergencies, always confirming before contacts are alerted
 `;
 
 const MOCK_COMMUNITY_EVENTS: CommunityEvent[] = [
@@ -216,69 +229,6 @@ const MOCK_COMMUNITY_EVENTS: CommunityEvent[] = [
   }
 ];
 
-const MOCK_SCAM_NUMBERS = ['99998888', '0123456789', '99999999'];
-
-// --- Quest System ---
-
-const generateQuestFromDestination = (
-  destination: google.maps.places.PlaceResult,
-  userLocation: { lat: number; lng: number }
-): Quest => {
-  const destLat = destination.geometry?.location?.lat() || 0;
-  const destLng = destination.geometry?.location?.lng() || 0;
-
-  // Calculate distance (approximate)
-  const distance = Math.sqrt(
-    Math.pow(destLat - userLocation.lat, 2) + Math.pow(destLng - userLocation.lng, 2)
-  ) * 111; // Convert to km (rough approximation)
-
-  // Generate waypoints along the route
-  const waypoints: Waypoint[] = [];
-  const waypointCount = Math.min(3, Math.floor(distance / 0.5)); // One waypoint every 500m
-
-  for (let i = 0; i < waypointCount; i++) {
-    const ratio = (i + 1) / (waypointCount + 1);
-    waypoints.push({
-      id: `wp-${i}`,
-      lat: userLocation.lat + (destLat - userLocation.lat) * ratio,
-      lng: userLocation.lng + (destLng - userLocation.lng) * ratio,
-      name: `Checkpoint ${i + 1}`,
-      completed: false,
-      type: 'checkpoint',
-      description: `Complete this checkpoint to earn bonus rewards!`
-    });
-  }
-
-  // Determine quest type based on destination
-  let questType: Quest['type'] = 'exploration';
-  const placeTypes = destination.types || [];
-  if (placeTypes.includes('park') || placeTypes.includes('gym')) {
-    questType = 'fitness';
-  } else if (placeTypes.includes('hospital') || placeTypes.includes('police')) {
-    questType = 'emergency';
-  } else if (placeTypes.includes('community_center') || placeTypes.includes('library')) {
-    questType = 'community';
-  }
-
-  return {
-    id: `quest-${Date.now()}`,
-    title: `Journey to ${destination.name}`,
-    description: `Complete this quest to explore ${destination.name} and earn rewards!`,
-    destination: {
-      lat: destLat,
-      lng: destLng,
-      name: destination.name || 'Unknown Destination'
-    },
-    waypoints,
-    reward: `${Math.floor(distance * 50)} KP`,
-    distance: Math.round(distance * 100) / 100,
-    duration: Math.round(distance * 15), // Approx 15 min per km
-    progress: 0,
-    status: 'available',
-    type: questType
-  };
-};
-
 // --- Map Component ---
 
 interface MapViewProps {
@@ -307,9 +257,14 @@ const MapView: React.FC<MapViewProps> = ({
   const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
   const userMarkerRef = useRef<google.maps.Marker | null>(null);
   const eventMarkersRef = useRef<google.maps.Marker[]>([]);
+  const mapInitStartedRef = useRef(false);
+  // Stops following the user once they drag the map, until they tap re-centre
+  const [followUser, setFollowUser] = useState(true);
 
+  // Location now updates continuously, so build the map once on the first fix
   useEffect(() => {
-    if (!mapRef.current || !userLocation) return;
+    if (!mapRef.current || !userLocation || mapInitStartedRef.current) return;
+    mapInitStartedRef.current = true;
 
     const initMap = async () => {
       const { Map } = await google.maps.importLibrary("maps") as google.maps.MapsLibrary;
@@ -332,6 +287,7 @@ const MapView: React.FC<MapViewProps> = ({
       });
 
       mapInstanceRef.current = map;
+      map.addListener('dragstart', () => setFollowUser(false));
 
       // Add user location marker
       if (userMarkerRef.current) {
@@ -403,17 +359,19 @@ const MapView: React.FC<MapViewProps> = ({
 
     // Create waypoints for the route
     const waypoints = quest.waypoints
-      .filter(wp => !wp.completed)
+      .filter(isWaypointPending)
       .map(wp => ({
         location: new google.maps.LatLng(wp.lat, wp.lng),
         stopover: true
       }));
 
+    // Transit directions cannot pass through checkpoints; the stops are on the route anyway
+    const transit = quest.travelMode === 'transit';
     const request: google.maps.DirectionsRequest = {
       origin: userLocation,
       destination: new google.maps.LatLng(quest.destination.lat, quest.destination.lng),
-      waypoints: waypoints,
-      travelMode: google.maps.TravelMode.WALKING,
+      waypoints: transit ? undefined : waypoints,
+      travelMode: transit ? google.maps.TravelMode.TRANSIT : google.maps.TravelMode.WALKING,
       unitSystem: google.maps.UnitSystem.METRIC
     };
 
@@ -421,6 +379,10 @@ const MapView: React.FC<MapViewProps> = ({
       if (status === 'OK' && result) {
         directionsRendererRef.current?.setDirections(result);
 
+        // Replace the markers from the previous route
+        markersRef.current.forEach(marker => marker.setMap(null));
+        markersRef.current = [];
+
         // Add markers for waypoints
         quest.waypoints.forEach((wp, index) => {
           const marker = new google.maps.Marker({
@@ -454,18 +416,26 @@ const MapView: React.FC<MapViewProps> = ({
     });
   };
 
+  // Redraw when the quest or its route changes (e.g. after re-routing), not on every step or checkpoint update
   useEffect(() => {
     if (activeQuest && mapInstanceRef.current) {
       showQuestRoute(activeQuest);
+    } else if (!activeQuest) {
+      directionsRendererRef.current?.set('directions', null);
+      markersRef.current.forEach(marker => marker.setMap(null));
+      markersRef.current = [];
     }
-  }, [activeQuest]);
+  }, [activeQuest?.id, activeQuest?.route, activeQuest?.waypoints.filter(wp => wp.completed).length]);
 
-  // Update user location marker
+  // Update user location marker, and keep them in view during a quest
   useEffect(() => {
     if (userMarkerRef.current && userLocation) {
       userMarkerRef.current.setPosition(userLocation);
+      if (followUser && activeQuest) {
+        mapInstanceRef.current?.panTo(userLocation);
+      }
     }
-  }, [userLocation]);
+  }, [userLocation, followUser, activeQuest]);
 
   // Render community event markers
   useEffect(() => {
@@ -559,6 +529,18 @@ const MapView: React.FC<MapViewProps> = ({
         style={{ fontSize: '18px' }}
       />
       <div ref={mapRef} className="w-full h-full" />
+      {!followUser && userLocation && (
+        <button
+          onClick={() => {
+            setFollowUser(true);
+            mapInstanceRef.current?.panTo(userLocation);
+          }}
+          className="absolute top-20 right-4 z-10 p-3 rounded-full bg-white text-teal-700 shadow-lg"
+          aria-label="Back to my location"
+        >
+          <LocateFixed className="w-6 h-6" />
+        </button>
+      )}
     </div>
   );
 };
@@ -575,16 +557,6 @@ function base64ToUint8Array(base64String: string) {
   return bytes;
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer) {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 // Helper to create a silent stream if mic fails (prevents crash)
 function createSilentStream(ctx: AudioContext) {
     const oscillator = ctx.createOscillator();
@@ -605,6 +577,9 @@ console.log('[DEBUG] API Key Status:', GEMINI_API_KEY ? `Found (${GEMINI_API_KEY
 
 const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
 
+// Bundled list and heuristics plus the kampung's shared scam reports
+const scamChecker = createCommunityScamChecker(getDatabase(app));
+
 // Load Google Maps API dynamically
 const loadGoogleMapsAPI = () => {
   const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || 'YOUR_API_KEY_HERE';
@@ -634,19 +609,37 @@ const AppContent = () => {
   const [connected, setConnected] = useState(false);
   const [isMicOn, setIsMicOn] = useState(true);
   const [isCamOn, setIsCamOn] = useState(false);
-  const [mode, setMode] = useState<'voice' | 'quest' | 'connect' | 'distress'>('voice');
+  const [mode, setMode] = useState<'voice' | 'quest' | 'connect' | 'distress' | 'wellbeing' | 'scam' | 'history' | 'chat' | 'mobility' | 'rewards' | 'merchant'>('voice');
   const [showDrawer, setShowDrawer] = useState(false);
   const [location, setLocation] = useState<{lat: number, lng: number} | null>(null);
   const [volumeLevel, setVolumeLevel] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveSessionStatus>('closed');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [currentMood, setCurrentMood] = useState<string>('Waiting for analysis...');
   const [moodConfidence, setMoodConfidence] = useState<number>(0);
+  const [moodHistory, setMoodHistory] = useState<MoodReading[]>([]);
+  const [scamBlocklist, setScamBlocklist] = useState<BlocklistEntry[]>([]);
+  const [scamAnalysis, setScamAnalysis] = useState<ScamAnalysis | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [mobilityProfile, setMobilityProfile] = useState<MobilityProfile>(DEFAULT_MOBILITY_PROFILE);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatBusy, setChatBusy] = useState(false);
 
   // Quest State
   const [quests, setQuests] = useState<Quest[]>([]);
   const [activeQuest, setActiveQuest] = useState<Quest | null>(null);
   const [selectedDestination, setSelectedDestination] = useState<google.maps.places.PlaceResult | null>(null);
-  const [totalKP, setTotalKP] = useState(150); // User's Kampung Points
+  const [destinationChoice, setDestinationChoice] = useState<DestinationChoice | null>(null);
+  const [choosingDestination, setChoosingDestination] = useState(false);
+  // User's Kampung Points, summed from the synced ledger
+  const [pointLedger, setPointLedger] = useState<PointTransaction[]>([]);
+  const totalKP = ledgerBalance(pointLedger);
+  const [userDataReady, setUserDataReady] = useState(false);
+  // Badge id -> when it was first earned
+  const [earnedBadges, setEarnedBadges] = useState<Record<string, number>>({});
+  const [rewardStock, setRewardStock] = useState<Record<string, number>>({});
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
 
   // Event & Photo State
   const [communityEvents, setCommunityEvents] = useState<CommunityEvent[]>(MOCK_COMMUNITY_EVENTS);
@@ -668,6 +661,9 @@ const AppContent = () => {
     localStorage.setItem('kampung_user_id', newId);
     return newId;
   });
+  // Mood, history and progress are kept under the Firebase uid, which follows the account to every
+  // device, and under the device id while nobody is signed in
+  const dataOwnerId = currentUser?.uid || myUserId;
   const [connections, setConnections] = useState<KampungConnection[]>([
     {
       id: 'KP-AH8G2K1L',
@@ -722,15 +718,26 @@ const AppContent = () => {
   const [copiedId, setCopiedId] = useState(false);
   const [connectTab, setConnectTab] = useState<'share' | 'add' | 'friends'>('share');
 
+  // SOS Distress State
+  const [sosIncident, setSosIncident] = useState<SosIncident | null>(null);
+  const [sosCountdown, setSosCountdown] = useState(SOS_COUNTDOWN_SECONDS);
+  const [sosPauseLeft, setSosPauseLeft] = useState(SOS_VOICE_PAUSE_SECONDS);
+  const [sosLog, setSosLog] = useState<SosLogEntry[]>([]);
+  const [incomingSos, setIncomingSos] = useState<IncomingSosAlert | null>(null);
+  const [incomingSosLocation, setIncomingSosLocation] = useState<{lat: number, lng: number} | null>(null);
+
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const sessionRef = useRef<any>(null);
+  const liveSessionRef = useRef<LiveSessionManager | null>(null);
+  const transcriptRef = useRef<TranscriptRecorder | null>(null);
+  const textChatRef = useRef<TextChat | null>(null);
+  const chatTranscriptRef = useRef<TranscriptRecorder | null>(null);
   const frameIntervalRef = useRef<number | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
+  const playbackQueueRef = useRef<PlaybackQueue | null>(null);
 
   // Check-in camera refs
   const checkInVideoRef = useRef<HTMLVideoElement>(null);
@@ -743,13 +750,26 @@ const AppContent = () => {
   // QR Scanner refs
   const qrVideoRef = useRef<HTMLVideoElement>(null);
   const qrCanvasRef = useRef<HTMLCanvasElement>(null);
-  const qrScanIntervalRef = useRef<number | null>(null);
 
   // WebRTC Refs
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
   const remoteAudioRef = useRef<HTMLAudioElement>(null);
 
+  const locationTrackerRef = useRef<LocationTracker | null>(null);
+  const navigationEngineRef = useRef<NavigationEngine>(createNavigationEngine());
+  const userDataRef = useRef<UserDataSync | null>(null);
+  // Latest ledger, so a spend is checked against points already spent in this same tick
+  const pointLedgerRef = useRef<PointTransaction[]>([]);
+  const reroutingRef = useRef(false);
+
+  // SOS Refs (read from geolocation callbacks that outlive a render)
+  const sosIncidentRef = useRef<SosIncident | null>(null);
+  const sosLastLocationLogRef = useRef<number>(0);
+
+  // Latest app state and actions for Ketua's tools, which run from callbacks that outlive a render
+  const toolContextRef = useRef<ToolContext | null>(null);
+
   useEffect(() => {
     // Load Google Maps API
     loadGoogleMapsAPI();
@@ -773,13 +793,26 @@ const AppContent = () => {
     console.log('- User Agent:', navigator.userAgent);
     console.log('- MediaDevices API:', !!navigator.mediaDevices);
     console.log('- AudioContext:', !!(window.AudioContext || (window as any).webkitAudioContext));
+  }, []);
 
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (pos) => setLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
-        (err) => console.warn("Geo error", err)
-      );
-    }
+  // Continuous location for navigation; filtered and smoothed by the tracker
+  useEffect(() => {
+    let cancelled = false;
+
+    createLocationProviderFromUrl().then(provider => {
+      if (cancelled) return;
+      const tracker = createLocationTracker(provider, {
+        onLocation: (fix) => setLocation({ lat: fix.lat, lng: fix.lng })
+      });
+      locationTrackerRef.current = tracker;
+      tracker.start();
+    });
+
+    return () => {
+      cancelled = true;
+      locationTrackerRef.current?.stop();
+      locationTrackerRef.current = null;
+    };
   }, []);
 
   // --- Kampung Connect Initialization ---
@@ -812,11 +845,17 @@ const AppContent = () => {
           isInCall: false,
           callType: 'incoming',
           remoteUserId: callData.from,
-          remoteUserName: callData.fromName
+          remoteUserName: callData.fromName,
+          isSos: !!callData.sos
         });
       }
     });
 
+    // A connection has raised an SOS alert
+    const unsubscribeSosAlerts = subscribeSosAlerts(db, userId, (alert) => {
+      if (alert) setIncomingSos(alert);
+    });
+
     // Load saved connections from localStorage
     const savedConnections = localStorage.getItem(`kampung_connections_${userId}`);
     if (savedConnections) {
@@ -826,6 +865,7 @@ const AppContent = () => {
     // Cleanup on unmount
     return () => {
       unsubscribeCalls();
+      unsubscribeSosAlerts();
       set(userStatusRef, {
         status: 'offline',
         lastSeen: Date.now()
@@ -833,6 +873,220 @@ const AppContent = () => {
     };
   }, [currentUser]);
 
+  // --- Mood History ---
+
+  useEffect(() => {
+    // Last 7 days is enough for the day/week timeline and weekly report
+    const db = getDatabase(app);
+    const since = startOfDay(Date.now()) - 6 * 24 * 60 * 60 * 1000;
+    const unsubscribe = subscribeMoodHistory(db, dataOwnerId, since, setMoodHistory);
+
+    return () => {
+      unsubscribe();
+      setMoodHistory([]);
+    };
+  }, [dataOwnerId]);
+
+  // --- Mobility Profile ---
+
+  // Always subscribed: quests are planned around it whenever Ketua starts one
+  useEffect(() => {
+    const unsubscribe = subscribeMobilityProfile(getDatabase(app), dataOwnerId, setMobilityProfile);
+    return () => {
+      unsubscribe();
+      setMobilityProfile(DEFAULT_MOBILITY_PROFILE);
+    };
+  }, [dataOwnerId]);
+
+  const updateMobilityProfile = useCallback(async (profile: Omit<MobilityProfile, 'updatedAt'>) => {
+    await saveMobilityProfile(getDatabase(app), dataOwnerId, profile);
+  }, [dataOwnerId]);
+
+  // --- Quest, Points & Check-in Sync ---
+
+  // Loads from the local cache first, then keeps in step with the user's other devices.
+  // Signed out it is kept on this device only
+  useEffect(() => {
+    const sync = createUserDataSync(currentUser ? getDatabase(app) : null, dataOwnerId, (data) => {
+      setQuests(data.quests);
+      setActiveQuest(data.quests.find(q => q.id === data.activeQuestId) || null);
+      pointLedgerRef.current = data.points;
+      setPointLedger(data.points);
+      setEarnedBadges(data.badges);
+      setCommunityEvents(prev => prev.map(event => {
+        // Older check-ins were recorded under the device id; everything loaded here is the owner's
+        const mine = data.eventCheckIns
+          .filter(c => c.eventId === event.id)
+          .map(c => ({ ...c.checkIn, userId: dataOwnerId }));
+        const others = event.participants.filter(id => id !== myUserId);
+        return {
+          ...event,
+          participants: data.joinedEventIds.includes(event.id) ? [...others, myUserId] : others,
+          checkIns: [...event.checkIns.filter(c => !mine.some(m => m.id === c.id)), ...mine]
+        };
+      }));
+      setUserDataReady(true);
+    });
+    userDataRef.current = sync;
+
+    return () => {
+      sync.stop();
+      userDataRef.current = null;
+      setUserDataReady(false);
+    };
+  }, [currentUser, dataOwnerId, myUserId]);
+
+  // Saves whatever changed; the sync skips records that are already up to date
+  useEffect(() => {
+    const sync = userDataRef.current;
+    if (!sync || !userDataReady) return;
+
+    // The active quest is newer than its copy in the list while navigating
+    quests.forEach(quest => {
+      if (quest.id !== activeQuest?.id) sync.saveQuest(quest);
+    });
+    if (activeQuest) sync.saveQuest(activeQuest);
+    sync.setActiveQuestId(activeQuest?.id ?? null);
+  }, [quests, activeQuest, userDataReady]);
+
+  useEffect(() => {
+    const sync = userDataRef.current;
+    if (!sync || !userDataReady) return;
+
+    communityEvents.forEach(event => {
+      sync.setEventJoined(event.id, event.participants.includes(myUserId));
+      event.checkIns
+        .filter(checkIn => checkIn.userId === dataOwnerId)
+        .forEach(checkIn => sync.addEventCheckIn(event.id, checkIn));
+    });
+  }, [communityEvents, myUserId, dataOwnerId, userDataReady]);
+
+  // --- Rewards ---
+
+  useEffect(() => {
+    if (mode !== 'rewards') return;
+
+    const db = getDatabase(app);
+    const unsubscribeStock = subscribeRewardStock(db, setRewardStock);
+    const unsubscribeVouchers = subscribeVouchers(db, dataOwnerId, setVouchers);
+    return () => {
+      unsubscribeStock();
+      unsubscribeVouchers();
+    };
+  }, [mode, dataOwnerId]);
+
+  // --- Conversation History ---
+
+  useEffect(() => {
+    if (mode !== 'history') return;
+
+    const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const unsubscribe = subscribeConversations(getDatabase(app), dataOwnerId, since, setConversations);
+    return () => unsubscribe();
+  }, [mode, dataOwnerId]);
+
+  // --- Kampung Points ---
+
+  // Every change goes through the ledger rules, so repeats and anything over the daily cap earn nothing.
+  // Returns whether the transaction was recorded.
+  const applyToLedger = useCallback((evaluate: (ledger: PointTransaction[]) => AwardResult) => {
+    const result = evaluate(pointLedgerRef.current);
+    if (!result.transaction) return false;
+    pointLedgerRef.current = [...pointLedgerRef.current, result.transaction];
+    setPointLedger(pointLedgerRef.current);
+    userDataRef.current?.addPoints(result.transaction);
+    return true;
+  }, []);
+
+  const awardPoints = useCallback((request: AwardRequest) => {
+    applyToLedger(ledger => evaluateAward(ledger, request));
+  }, [applyToLedger]);
+
+  // --- Levels, Badges & Streaks ---
+
+  const activityStats = useMemo(
+    () => computeActivityStats(pointLedger, quests, communityEvents, dataOwnerId),
+    [pointLedger, quests, communityEvents, dataOwnerId]
+  );
+  const level = levelFor(activityStats.lifetimeKP);
+
+  // Records badges as soon as they are earned, and has Ketua congratulate the user if the call is on
+  useEffect(() => {
+    const sync = userDataRef.current;
+    if (!sync || !userDataReady) return;
+
+    const newBadges = findNewBadges(activityStats, earnedBadges);
+    if (newBadges.length === 0) return;
+
+    const now = Date.now();
+    newBadges.forEach(badge => sync.recordBadge(badge.id, now));
+    setEarnedBadges(prev => ({ ...prev, ...Object.fromEntries(newBadges.map(badge => [badge.id, now])) }));
+
+    if (sessionRef.current && connected) {
+      const message = `Wah, congratulations! You just earned ${describeNewBadges(newBadges)}! You are now a ${level.title}. Keep it up lah!`;
+      sessionRef.current.then((session: any) => {
+        session.sendRealtimeInput({
+          media: {
+            mimeType: 'text/plain',
+            data: textToBase64(message)
+          }
+        });
+      });
+    }
+  }, [activityStats, earnedBadges, userDataReady, connected, level.title]);
+
+  // --- Scam Shield ---
+
+  useEffect(() => {
+    if (mode !== 'scam') return;
+
+    const unsubscribe = subscribeScamBlocklist(getDatabase(app), setScamBlocklist);
+    return () => unsubscribe();
+  }, [mode]);
+
+  const reportScam = useCallback(async (draft: ScamReportDraft) => {
+    const report = await submitScamReport(getDatabase(app), { ...draft, reporterId: myUserId });
+    awardPoints({ source: 'scam_report', referenceId: report.number, description: `Reported ${report.number}` });
+  }, [myUserId, awardPoints]);
+
+  // High quality frame from the live camera, for reading text on a phone screen
+  const captureCameraFrame = () => {
+    const frame = videoRef.current && canvasRef.current
+      ? captureVideoFrame(videoRef.current, canvasRef.current, 0.85)
+      : null;
+    if (!frame) {
+      throw new Error('Camera is not on - turn on the camera and hold the message up to it');
+    }
+    return frame;
+  };
+
+  // Read the verdict aloud: through Ketua when connected, otherwise the browser voice
+  const speakScamAnalysis = useCallback((analysis: ScamAnalysis) => {
+    const verdict = analysis.verdict === 'safe' ? 'looks safe' : analysis.verdict === 'scam' ? 'is a scam' : 'looks suspicious';
+    const text = `${analysis.singlishExplanation} ${analysis.recommendedAction}`;
+
+    if (sessionRef.current && connected) {
+      sessionRef.current.then((session: any) => {
+        session.sendRealtimeInput({
+          media: {
+            mimeType: 'text/plain',
+            data: textToBase64(
+              `I checked a message for the user and it ${verdict}. Tell them in Singlish: ${text}`
+            )
+          }
+        });
+      });
+    } else if ('speechSynthesis' in window) {
+      window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+    }
+  }, [connected]);
+
+  const analyseMessage = useCallback(async (input: ScamAnalysisInput) => {
+    const analysis = await analyseScamMessage(ai, input);
+    speakScamAnalysis(analysis);
+    return analysis;
+  }, [speakScamAnalysis]);
+
   // --- Kampung Connect Functions ---
 
   const copyUserId = useCallback(() => {
@@ -884,8 +1138,12 @@ const AppContent = () => {
     console.log(`Added friend: ${friendId}`);
   }, [connectInput, connections, myUserId]);
 
-  const initiateCall = useCallback(async (friendId: string, friendName: string) => {
-    if (!currentUser || callState.isInCall) return;
+  const initiateCall = useCallback(async (
+    friendId: string,
+    friendName: string,
+    options: { sos?: boolean } = {}
+  ): Promise<boolean> => {
+    if (!currentUser || callState.isInCall) return false;
 
     try {
       // Get audio and video stream
@@ -939,14 +1197,16 @@ const AppContent = () => {
         type: 'offer',
         from: myUserId,
         fromName: currentUser.displayName || currentUser.email?.split('@')[0] || 'Villager',
-        offer: { type: offer.type, sdp: offer.sdp }
+        offer: { type: offer.type, sdp: offer.sdp },
+        ...(options.sos ? { sos: true } : {})
       });
 
       setCallState({
         isInCall: true,
         callType: 'outgoing',
         remoteUserId: friendId,
-        remoteUserName: friendName
+        remoteUserName: friendName,
+        isSos: !!options.sos
       });
 
       // Listen for answer
@@ -965,9 +1225,11 @@ const AppContent = () => {
         }
       });
 
+      return true;
     } catch (error) {
       console.error('Call failed:', error);
       setErrorMsg('Failed to start call');
+      return false;
     }
   }, [currentUser, myUserId, callState.isInCall]);
 
@@ -1087,9 +1349,275 @@ const AppContent = () => {
     });
   }, [myUserId]);
 
+  // --- SOS Distress Functions ---
+
+  const updateSosIncident = useCallback((incident: SosIncident | null) => {
+    sosIncidentRef.current = incident;
+    setSosIncident(incident);
+  }, []);
+
+  const appendSosLog = useCallback((entry: SosLogEntry) => {
+    setSosLog(prev => [...prev, entry]);
+  }, []);
+
+  const triggerSos = useCallback((
+    trigger: SosTrigger,
+    details: { severity?: SosSeverity; reason?: string } = {}
+  ) => {
+    // Ignore repeated presses while an alert is already in progress
+    const existing = sosIncidentRef.current;
+    if (existing && (existing.status === 'countdown' || existing.status === 'active')) {
+      setMode('distress');
+      return;
+    }
+
+    const db = getDatabase(app);
+    const userName = currentUser?.displayName || currentUser?.email?.split('@')[0] || 'Villager';
+    const incident = createSosIncident(myUserId, userName, trigger, location, details);
+    const message = trigger === 'voice'
+      ? `SOS raised by Ketua${details.reason ? `: ${details.reason}` : ''}`
+      : 'SOS button pressed';
+
+    updateSosIncident(incident);
+    setSosLog([logSosEvent(db, incident, 'triggered', message, location)]);
+    setSosCountdown(SOS_COUNTDOWN_SECONDS);
+    setSosPauseLeft(SOS_VOICE_PAUSE_SECONDS);
+    setMode('distress');
+  }, [currentUser, myUserId, location, updateSosIncident]);
+
+  const cancelSos = useCallback(() => {
+    const incident = sosIncidentRef.current;
+    if (!incident || incident.status !== 'countdown') return;
+
+    const db = getDatabase(app);
+    const cancelled: SosIncident = { ...incident, status: 'cancelled' };
+    logSosEvent(db, cancelled, 'cancelled', `Cancelled with ${sosCountdown}s remaining`);
+
+    updateSosIncident(null);
+    setSosLog([]);
+    setMode('voice');
+  }, [sosCountdown, updateSosIncident]);
+
+  const escalateSos = useCallback(async () => {
+    const incident = sosIncidentRef.current;
+    if (!incident || incident.status !== 'countdown') return;
+
+    const db = getDatabase(app);
+    let active: SosIncident = { ...incident, status: 'active', location: location || incident.location };
+    updateSosIncident(active);
+    appendSosLog(logSosEvent(db, active, 'escalated', 'Alerting trusted contacts', active.location));
+
+    // 1. Notify every connection through their sosAlerts/{id} node
+    const notified = await notifySosContacts(db, active, connections);
+    active = { ...active, notifiedContacts: notified };
+    updateSosIncident(active);
+    notified.forEach(id => {
+      const contact = connections.find(c => c.id === id);
+      appendSosLog(logSosEvent(db, active, 'contact_notified', `Alerted ${contact?.name || id}`));
+    });
+
+    // 2. Start the live location share
+    if (active.location) {
+      updateSosLocation(db, active, active.location).catch(err => console.error('[SOS] Failed to share location:', err));
+      sosLastLocationLogRef.current = Date.now();
+    }
+
+    // 3. Call the first trusted contact who is online
+    const callee = await pickSosCallee(db, connections);
+    if (!callee) {
+      appendSosLog(logSosEvent(db, active, 'call_failed', 'No trusted contact online to call'));
+      return;
+    }
+
+    const started = await initiateCall(callee.id, callee.name, { sos: true });
+    appendSosLog(started
+      ? logSosEvent(db, active, 'call_started', `Calling ${callee.name}`)
+      : logSosEvent(db, active, 'call_failed', `Could not call ${callee.name}`));
+  }, [location, connections, initiateCall, updateSosIncident, appendSosLog]);
+
+  const resolveSos = useCallback(() => {
+    const incident = sosIncidentRef.current;
+    if (!incident || incident.status !== 'active') return;
+
+    const db = getDatabase(app);
+    const resolved: SosIncident = { ...incident, status: 'resolved' };
+    updateSosIncident(resolved);
+    appendSosLog(logSosEvent(db, resolved, 'resolved', 'User marked themselves safe', location));
+    clearSosAlerts(db, resolved).catch(err => console.error('[SOS] Failed to clear alerts:', err));
+  }, [location, updateSosIncident, appendSosLog]);
+
+  const closeSos = useCallback(() => {
+    updateSosIncident(null);
+    setSosLog([]);
+    setMode('voice');
+  }, [updateSosIncident]);
+
+  // Tools read state through getState() when a call arrives, never from connect-time closures
+  toolContextRef.current = {
+    db: getDatabase(app),
+    ai,
+    scamChecker,
+    getState: () => ({
+      userId: myUserId,
+      ownerId: dataOwnerId,
+      location,
+      activeQuest,
+      destinationChoice,
+      communityEvents,
+      currentMood,
+      moodConfidence,
+      sosIncident: sosIncidentRef.current,
+      mobilityProfile
+    }),
+    actions: {
+      captureCameraFrame,
+      awardPoints,
+      showScamAnalysis: setScamAnalysis,
+      startQuest: (quest) => {
+        setQuests(prev => [...prev, quest]);
+        setActiveQuest(quest);
+        setMode('quest');
+        setQuestView('map');
+      },
+      offerDestinations: (choice) => {
+        setDestinationChoice(choice);
+        // Voice users need the map to see the picker; text chat links to it from the reply
+        if (choice) {
+          setMode(prev => (prev === 'voice' ? 'quest' : prev));
+          setQuestView('map');
+        }
+      },
+      setMood: (mood, confidence) => {
+        setCurrentMood(mood);
+        setMoodConfidence(confidence);
+      },
+      sos: {
+        trigger: triggerSos,
+        sendNow: () => setSosCountdown(0),
+        cancel: cancelSos,
+        resolve: resolveSos
+      }
+    }
+  };
+
+  const dismissIncomingSos = useCallback(() => {
+    if (incomingSos) {
+      dismissSosAlert(getDatabase(app), myUserId, incomingSos.incidentId)
+        .catch(err => console.error('[SOS] Failed to dismiss alert:', err));
+    }
+    setIncomingSos(null);
+    setIncomingSosLocation(null);
+  }, [myUserId, incomingSos]);
+
+  // Only an SOS Ketua raised waits for Ketua's spoken confirmation, and only up to the pause budget
+  const sosPaused = sosIncident?.trigger === 'voice' && isSpeaking && sosPauseLeft > 0;
+
+  // SOS countdown - escalate automatically unless the user cancels
+  useEffect(() => {
+    if (sosIncident?.status !== 'countdown') return;
+
+    if (sosCountdown <= 0) {
+      escalateSos();
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      if (sosPaused) setSosPauseLeft(prev => prev - 1);
+      else setSosCountdown(prev => prev - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sosIncident?.status, sosCountdown, sosPauseLeft, sosPaused, escalateSos]);
+
+  // Track at full accuracy while an SOS is active, whatever the battery
+  useEffect(() => {
+    locationTrackerRef.current?.setHighPriority(sosIncident?.status === 'active');
+  }, [sosIncident?.status]);
+
+  // Share each location update while an SOS is active
+  useEffect(() => {
+    const incident = sosIncidentRef.current;
+    if (!location || !incident || incident.status !== 'active') return;
+
+    const db = getDatabase(app);
+    updateSosLocation(db, incident, location).catch(err => console.error('[SOS] Failed to share location:', err));
+    if (Date.now() - sosLastLocationLogRef.current >= SOS_LOCATION_LOG_INTERVAL_MS) {
+      sosLastLocationLogRef.current = Date.now();
+      appendSosLog(logSosEvent(db, incident, 'location_update', 'Location shared', location));
+    }
+  }, [location, sosIncident?.status, appendSosLog]);
+
+  // Follow the live location of a connection who raised an SOS
+  useEffect(() => {
+    if (!incomingSos) return;
+
+    const db = getDatabase(app);
+    const unsubscribe = onValue(ref(db, `sos/${incomingSos.from}`), (snapshot) => {
+      const data = snapshot.val();
+      // Ignore leftovers from an earlier incident by the same person
+      if (!data || data.incidentId !== incomingSos.incidentId) return;
+
+      if (data.status === 'resolved') {
+        setIncomingSos(null);
+        setIncomingSosLocation(null);
+      } else if (data.location) {
+        setIncomingSosLocation(data.location);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [incomingSos?.from, incomingSos?.incidentId]);
+
+  // --- Text Chat ---
+
+  const sendChatMessage = async (text: string) => {
+    // Created on first use; voice-only tools like mood analysis need the camera
+    if (!textChatRef.current) {
+      textChatRef.current = createTextChat(ai, {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        tools: ketuaTools.declarations({ includeVoiceOnly: false }),
+        onToolCall: async (name, args) => toolContextRef.current
+          ? ketuaTools.run(name, args, toolContextRef.current)
+          : { success: false, message: 'Ketua is not ready yet' }
+      });
+      chatTranscriptRef.current = createTranscriptRecorder(getDatabase(app), dataOwnerId);
+    }
+    const transcript = chatTranscriptRef.current;
+
+    setChatMessages(prev => [...prev, { id: `${Date.now()}-user`, role: 'user', text, timestamp: Date.now() }]);
+    setChatBusy(true);
+    transcript?.addInput(text);
+
+    try {
+      const reply = await textChatRef.current.send(text);
+      setChatMessages(prev => [...prev, {
+        id: `${Date.now()}-ketua`,
+        role: 'ketua',
+        text: reply.text,
+        timestamp: Date.now(),
+        toolResults: reply.toolResults
+      }]);
+      reply.toolResults.forEach(({ name, args }) => transcript?.addToolCall({ name, args }));
+      transcript?.addOutput(reply.text);
+    } catch (error) {
+      console.error('[CHAT] Failed to send message:', error);
+      setChatMessages(prev => [...prev, {
+        id: `${Date.now()}-error`,
+        role: 'ketua',
+        text: "Aiyo, cannot reach Ketua right now. Check your internet and try again.",
+        timestamp: Date.now(),
+        failed: true
+      }]);
+    } finally {
+      transcript?.endTurn();
+      setChatBusy(false);
+    }
+  };
+
   // --- Live API Connection ---
 
   const startSession = async () => {
+    // Outside the try so the mic is released if anything after getUserMedia fails
+    let stream: MediaStream | null = null;
     try {
       setErrorMsg(null);
       
@@ -1099,6 +1627,15 @@ const AppContent = () => {
       
       audioContextRef.current = new AudioContextClass();
       const ctx = audioContextRef.current;
+      // Mic capture needs an AudioWorklet; say so before asking for the mic
+      if (!ctx.audioWorklet) {
+        throw new Error("This browser is too old for voice chat - update it, or use Chat with Ketua in the menu");
+      }
+      const playbackQueue = createPlaybackQueue(ctx, { onSpeakingChange: setIsSpeaking });
+      playbackQueueRef.current = playbackQueue;
+      // One conversation per connect; reconnects keep appending to it
+      const transcript = createTranscriptRecorder(getDatabase(app), dataOwnerId);
+      transcriptRef.current = transcript;
       
       console.log('[AUDIO CONTEXT] Initial state:', ctx.state, 'Sample rate:', ctx.sampleRate);
       
@@ -1122,23 +1659,20 @@ const AppContent = () => {
         }
       };
 
-      const sampleRate = ctx.sampleRate; 
-
       // 2. Get Media Stream (Mic)
-      let stream: MediaStream;
       try {
           stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       } catch (e) {
           console.warn("Microphone not found or denied. Falling back to silent stream.", e);
           stream = createSilentStream(ctx);
           setIsMicOn(false); 
-          setErrorMsg("Mic denied/missing - Audio Input Disabled");
+          setErrorMsg("Mic denied/missing - use Chat with Ketua in the menu");
       }
       
       setConnected(true);
 
-      // 3. Connect to Gemini Live
-      const sessionPromise = ai.live.connect({
+      // 3. Connect to Gemini Live (the session manager calls this again on every reconnect)
+      const connectLive = (resumeHandle: string | undefined, events: LiveSessionEvents) => ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
         config: {
           systemInstruction: SYSTEM_INSTRUCTION,
@@ -1146,119 +1680,39 @@ const AppContent = () => {
           speechConfig: {
              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
           },
+          sessionResumption: { handle: resumeHandle },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
           tools: [{
-            functionDeclarations: [
-              {
-                name: "searchNearbyEvents",
-                description: "Search for community events.",
-                parameters: { type: Type.OBJECT, properties: {} }
-              },
-              {
-                name: "checkSuspiciousNumber",
-                description: "Check phone number for scam.",
-                parameters: {
-                  type: Type.OBJECT,
-                  properties: { phoneNumber: { type: Type.STRING } },
-                  required: ["phoneNumber"]
-                }
-              },
-              {
-                name: "createQuestToDestination",
-                description: "Create a quest/navigation to a destination when user mentions wanting to go somewhere. Use this when they say phrases like 'bring me to', 'I want to go to', 'navigate to', 'where is', 'how to get to', etc.",
-                parameters: {
-                  type: Type.OBJECT,
-                  properties: {
-                    destinationName: {
-                      type: Type.STRING,
-                      description: "The name of the destination (e.g., 'kopitiam', 'MRT station', 'hawker center', 'market', etc.)"
-                    },
-                    destinationType: {
-                      type: Type.STRING,
-                      description: "Type of place: restaurant, transit_station, shopping_mall, park, hospital, etc."
-                    }
-                  },
-                  required: ["destinationName"]
-                }
-              },
-              {
-                name: "getActiveQuestStatus",
-                description: "Get the status of the active quest including progress, current waypoint, and distance remaining.",
-                parameters: { type: Type.OBJECT, properties: {} }
-              },
-              {
-                name: "analyzeMood",
-                description: "Update the user's current mood/emotion based on facial expression analysis from video frames. Call this every time you analyze a video frame.",
-                parameters: {
-                  type: Type.OBJECT,
-                  properties: {
-                    mood: {
-                      type: Type.STRING,
-                      description: "Brief mood description (2-4 words): e.g., 'Happy & Content', 'Worried', 'Distressed', 'Calm & Relaxed', 'Tired', 'Confused', 'Neutral'"
-                    },
-                    confidence: {
-                      type: Type.NUMBER,
-                      description: "Confidence level from 0-100"
-                    },
-                    shouldRespond: {
-                      type: Type.BOOLEAN,
-                      description: "True if the mood requires immediate verbal response (distressed, scared, crying)"
-                    }
-                  },
-                  required: ["mood", "confidence"]
-                }
-              },
-              {
-                name: "getNextNavigationStep",
-                description: "Get the current navigation instruction when user asks 'where do I go?', 'what's next?', 'which way?', or similar navigation questions during an active quest.",
-                parameters: { type: Type.OBJECT, properties: {} }
-              }
-            ]
+            functionDeclarations: ketuaTools.declarations()
           }]
         },
         callbacks: {
             onopen: () => {
+                events.onopen();
                 console.log("Gemini Live Connected");
-                
-                const source = ctx.createMediaStreamSource(stream);
-                inputSourceRef.current = source;
-                
-                const processor = ctx.createScriptProcessor(4096, 1, 1);
-                processorRef.current = processor;
-
-                processor.onaudioprocess = (e) => {
-                    if (!isMicOn) return; 
-                    
-                    const inputData = e.inputBuffer.getChannelData(0);
-                    
-                    let sum = 0;
-                    for(let i=0; i<inputData.length; i++) sum += inputData[i]*inputData[i];
-                    const rms = Math.sqrt(sum/inputData.length);
-                    setVolumeLevel(Math.min(rms * 1000, 100)); 
-
-                    const pcm16 = new Int16Array(inputData.length);
-                    for (let i = 0; i < inputData.length; i++) {
-                        let s = Math.max(-1, Math.min(1, inputData[i]));
-                        pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-                    }
-                    
-                    const base64Audio = arrayBufferToBase64(pcm16.buffer);
-                    
-                    sessionPromise.then(session => {
-                         session.sendRealtimeInput({
-                             media: {
-                                 mimeType: `audio/pcm;rate=${sampleRate}`,
-                                 data: base64Audio
-                             }
-                         });
-                    });
-                };
-
-                source.connect(processor);
-                processor.connect(ctx.destination);
             },
             onmessage: async (msg) => {
+                events.onmessage(msg);
+
+                // Transcript for the conversation history
+                if (msg.serverContent?.inputTranscription?.text) {
+                    transcript.addInput(msg.serverContent.inputTranscription.text);
+                }
+                if (msg.serverContent?.outputTranscription?.text) {
+                    transcript.addOutput(msg.serverContent.outputTranscription.text);
+                }
+                if (msg.serverContent?.turnComplete || msg.serverContent?.interrupted) {
+                    transcript.endTurn(!!msg.serverContent.interrupted);
+                }
                 console.log('[MESSAGE] Received message from Gemini:', JSON.stringify(msg, null, 2));
                 
+                // Barge-in: the user spoke over Ketua, so drop the rest of the answer
+                if (msg.serverContent?.interrupted) {
+                    console.log('[AUDIO] Interrupted by user, stopping playback');
+                    playbackQueue.flush();
+                }
+
                 // Check multiple possible locations for audio data
                 let audioData = null;
                 
@@ -1300,18 +1754,8 @@ const AppContent = () => {
                             length: audioBuffer.length
                         });
                         
-                        setVolumeLevel(50 + (Math.random() * 50)); 
-
-                        const source = ctx.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(ctx.destination);
-                        
-                        const now = ctx.currentTime;
-                        const startTime = Math.max(now, nextStartTimeRef.current);
-                        console.log('[AUDIO] Playing audio at time:', startTime, 'current time:', now);
-                        source.start(startTime);
-                        nextStartTimeRef.current = startTime + audioBuffer.duration;
-                        console.log('[AUDIO] Audio playback started successfully');
+                        playbackQueue.enqueue(audioBuffer);
+                        console.log('[AUDIO] Audio chunk queued for playback');
                     } catch (error) {
                         console.error('[AUDIO ERROR] Failed to play audio:', error);
                     }
@@ -1324,228 +1768,124 @@ const AppContent = () => {
                 }
 
                 if (msg.toolCall) {
-                    for (const fc of msg.toolCall.functionCalls) {
-                         let result = {};
-                         if (fc.name === 'searchNearbyEvents') {
-                             result = { events: communityEvents };
-                         } else if (fc.name === 'checkSuspiciousNumber') {
-                             const args: any = fc.args;
-                             const num = args.phoneNumber || "";
-                             const isScam = MOCK_SCAM_NUMBERS.some(n => num.includes(n));
-                             result = { isSuspicious: isScam, message: isScam ? "DANGER: Scam detected." : "Seems safe." };
-                         } else if (fc.name === 'createQuestToDestination') {
-                             const args: any = fc.args;
-                             const destinationName = args.destinationName || "";
-                             const destinationType = args.destinationType || "point_of_interest";
-                             
-                             // Search for the destination using Google Places API
-                             if (window.google && location) {
-                                 const service = new google.maps.places.PlacesService(document.createElement('div'));
-                                 const request: google.maps.places.TextSearchRequest = {
-                                     query: destinationName,
-                                     location: new google.maps.LatLng(location.lat, location.lng),
-                                     radius: 5000,
-                                     type: destinationType
-                                 };
-                                 
-                                 service.textSearch(request, (results, status) => {
-                                     if (status === google.maps.places.PlacesServiceStatus.OK && results && results[0]) {
-                                         const place = results[0];
-                                         const newQuest = generateQuestFromDestination(place, location);
-                                         
-                                         // Fetch step-by-step directions
-                                         const directionsService = new google.maps.DirectionsService();
-                                         const directionsRequest: google.maps.DirectionsRequest = {
-                                             origin: new google.maps.LatLng(location.lat, location.lng),
-                                             destination: new google.maps.LatLng(
-                                                 place.geometry?.location?.lat() || 0,
-                                                 place.geometry?.location?.lng() || 0
-                                             ),
-                                             travelMode: google.maps.TravelMode.WALKING,
-                                             unitSystem: google.maps.UnitSystem.METRIC
-                                         };
-                                         
-                                         directionsService.route(directionsRequest, (dirResult, dirStatus) => {
-                                             if (dirStatus === 'OK' && dirResult) {
-                                                 const steps = dirResult.routes[0].legs[0].steps.map((step: any) => ({
-                                                     instruction: step.instructions.replace(/<[^>]*>/g, ''), // Remove HTML tags
-                                                     distance: step.distance.text,
-                                                     duration: step.duration.text
-                                                 }));
-                                                 
-                                                 const questWithNav = {
-                                                     ...newQuest,
-                                                     navigationSteps: steps,
-                                                     currentStepIndex: 0,
-                                                     status: 'active' as const
-                                                 };
-                                                 
-                                                 setQuests(prev => [...prev, questWithNav]);
-                                                 setActiveQuest(questWithNav);
-                                                 setMode('quest');
-                                                 setQuestView('map');
-                                                 
-                                                 // Announce first step
-                                                 const firstStep = steps[0];
-                                                 result = {
-                                                     success: true,
-                                                     message: `Okay can! Navigate to ${place.name}. First step: ${firstStep.instruction}`,
-                                                     questDetails: {
-                                                         destination: place.name,
-                                                         distance: newQuest.distance,
-                                                         duration: newQuest.duration,
-                                                         reward: newQuest.reward,
-                                                         firstStep: firstStep.instruction
-                                                     }
-                                                 };
-                                             } else {
-                                                 // Fallback if directions fail
-                                                 const questWithoutNav = { ...newQuest, status: 'active' as const };
-                                                 setQuests(prev => [...prev, questWithoutNav]);
-                                                 setActiveQuest(questWithoutNav);
-                                                 setMode('quest');
-                                                 setQuestView('map');
-                                                 
-                                                 result = {
-                                                     success: true,
-                                                     message: `Quest created to ${place.name}! Distance: ${newQuest.distance} km. Follow the map lah!`,
-                                                     questDetails: {
-                                                         destination: place.name,
-                                                         distance: newQuest.distance,
-                                                         duration: newQuest.duration,
-                                                         reward: newQuest.reward
-                                                     }
-                                                 };
-                                             }
-                                         });
-                                     } else {
-                                         result = {
-                                             success: false,
-                                             message: `Sorry, cannot find ${destinationName}. Can you be more specific?`
-                                         };
-                                     }
-                                 });
-                             } else {
-                                 result = {
-                                     success: false,
-                                     message: "Location not available or Maps not loaded. Please enable location access."
-                                 };
-                             }
-                         } else if (fc.name === 'getActiveQuestStatus') {
-                             if (activeQuest) {
-                                 const completedWaypoints = activeQuest.waypoints.filter(wp => wp.completed).length;
-                                 const nextWaypoint = activeQuest.waypoints.find(wp => !wp.completed);
-                                 const currentNav = activeQuest.navigationSteps && activeQuest.currentStepIndex !== undefined
-                                     ? activeQuest.navigationSteps[activeQuest.currentStepIndex]
-                                     : null;
-                                 
-                                 result = {
-                                     hasActiveQuest: true,
-                                     questName: activeQuest.title,
-                                     destination: activeQuest.destination.name,
-                                     progress: activeQuest.progress,
-                                     completedCheckpoints: completedWaypoints,
-                                     currentNavigationStep: currentNav ? currentNav.instruction : 'Follow the map',
-                                     totalCheckpoints: activeQuest.waypoints.length,
-                                     nextCheckpoint: nextWaypoint ? nextWaypoint.name : "Final destination",
-                                     distanceRemaining: activeQuest.distance * (1 - activeQuest.progress / 100),
-                                     reward: activeQuest.reward
-                                 };
-                             } else {
-                                 result = {
-                                     hasActiveQuest: false,
-                                     message: "No active quest. Ask me to bring you somewhere!"
-                                 };
-                             }
-                         } else if (fc.name === 'analyzeMood') {
-                             const args: any = fc.args;
-                             const mood = args.mood || "Neutral";
-                             const confidence = args.confidence || 0;
-                             const shouldRespond = args.shouldRespond || false;
-                             
-                             console.log('[MOOD DETECTION] Received mood analysis:', { mood, confidence, shouldRespond });
-                             
-                             // Update mood display
-                             setCurrentMood(mood);
-                             setMoodConfidence(confidence);
-                             
-                             console.log(`[MOOD] ${mood} (${confidence}% confident) - Display updated`);
-                             
-                             result = {
-                                 success: true,
-                                 message: `Mood updated: ${mood}`,
-                                 needsResponse: shouldRespond
-                             };
-                         } else if (fc.name === 'getNextNavigationStep') {
-                             if (activeQuest && activeQuest.navigationSteps && activeQuest.currentStepIndex !== undefined) {
-                                 const currentStep = activeQuest.navigationSteps[activeQuest.currentStepIndex];
-                                 const stepsRemaining = activeQuest.navigationSteps.length - activeQuest.currentStepIndex - 1;
-                                 
-                                 result = {
-                                     success: true,
-                                     currentStep: currentStep.instruction,
-                                     distance: currentStep.distance,
-                                     duration: currentStep.duration,
-                                     stepNumber: activeQuest.currentStepIndex + 1,
-                                     totalSteps: activeQuest.navigationSteps.length,
-                                     stepsRemaining: stepsRemaining,
-                                     destination: activeQuest.destination.name
-                                 };
-                             } else {
-                                 result = {
-                                     success: false,
-                                     message: "No active navigation. Create a quest first lah!"
-                                 };
-                             }
-                         }
-                         
-                         sessionPromise.then(session => {
-                             session.sendToolResponse({
-                                 functionResponses: {
-                                     id: fc.id,
-                                     name: fc.name,
-                                     response: { result }
-                                 }
-                             });
-                         });
+                    const calls = msg.toolCall.functionCalls || [];
+                    // Periodic mood checks are not part of the conversation
+                    calls
+                        .filter(fc => fc.name && !ketuaTools.isSilent(fc.name))
+                        .forEach(fc => transcript.addToolCall({ name: fc.name || '', args: fc.args || {} }));
+
+                    const session = await sessionRef.current;
+                    if (session && toolContextRef.current) {
+                        await respondToToolCalls(session, calls, ketuaTools, toolContextRef.current);
                     }
                 }
             },
-            onclose: () => {
+            onclose: (e) => {
                 console.log("Session closed");
-                setConnected(false);
+                events.onclose(e);
             },
             onerror: (err) => {
                 console.error("Session error", err);
-                setConnected(false);
-                setErrorMsg("Connection Error");
+                events.onerror(err);
             }
         }
       });
-      
-      sessionRef.current = sessionPromise;
+
+      const liveSession = createLiveSessionManager({
+        connect: connectLive,
+        onSession: (session) => {
+            sessionRef.current = session;
+        },
+        onStatusChange: (status) => {
+            setLiveStatus(status);
+            // Out of retries (not a user stop, which clears the ref first)
+            if (status === 'closed' && liveSessionRef.current === liveSession) {
+                stopSession();
+                setErrorMsg("Connection lost. Tap CONNECT to try again.");
+            }
+        },
+        onReconnected: (session, resumed) => {
+            session.sendRealtimeInput({
+                media: {
+                    mimeType: 'text/plain',
+                    data: textToBase64(buildSessionContext(resumed))
+                }
+            });
+        }
+      });
+      liveSessionRef.current = liveSession;
+      liveSession.start().catch(err => console.warn('[LIVE] First connect failed, retrying:', err));
+
+      // 4. Mic audio is resampled to 16 kHz PCM16 in an AudioWorklet; chunks are dropped while reconnecting
+      const micCapture = await startMicCapture(ctx, stream, {
+          muted: !isMicOn,
+          onLevel: setVolumeLevel,
+          onChunk: (base64Audio, mimeType) => {
+              liveSession.sendRealtimeInput({
+                  media: { mimeType, data: base64Audio }
+              });
+          }
+      });
+      // The user may have hung up while the worklet was loading; stopSession could not stop it then
+      if (liveSessionRef.current !== liveSession) {
+          micCapture.stop();
+          return;
+      }
+      micCaptureRef.current = micCapture;
 
     } catch (e: any) {
       console.error("Failed to start session", e);
+      stream?.getTracks().forEach(track => track.stop());
+      stopSession();
       setErrorMsg(e.message || "Failed to start");
-      setConnected(false);
     }
   };
 
-  const stopSession = () => {
-     // Close the session if it exists
-     if (sessionRef.current && typeof sessionRef.current.close === 'function') {
-         try {
-             sessionRef.current.close();
-             console.log('[DEBUG] Session closed successfully');
-         } catch (error) {
-             console.error('[ERROR] Failed to close session:', error);
-         }
+  // Tells a reconnected session where things stand, since app state moved on while offline
+  const buildSessionContext = (resumed: boolean) => {
+     const state = toolContextRef.current?.getState();
+     if (!state) return '';
+     const { activeQuest, currentMood, moodConfidence, sosIncident } = state;
+     const lines = [
+         resumed
+             ? 'The connection dropped for a moment and has been restored. Current app state:'
+             : 'The connection dropped and this is a new session, so earlier conversation is lost. Current app state:'
+     ];
+
+     if (activeQuest && activeQuest.status === 'active') {
+         const step = activeQuest.navigationSteps?.[activeQuest.currentStepIndex ?? 0];
+         lines.push(`- Active quest to ${activeQuest.destination.name}, ${Math.round(activeQuest.progress)}% done${step ? `. Current step: ${step.instruction}` : ''}`);
+     }
+     if (moodConfidence > 0) {
+         lines.push(`- Last detected mood: ${currentMood} (${moodConfidence}% confident)`);
      }
+     if (sosIncident && (sosIncident.status === 'countdown' || sosIncident.status === 'active')) {
+         lines.push(`- SOS alert is ${sosIncident.status === 'active' ? 'ACTIVE, contacts have been alerted' : 'counting down'}${sosIncident.reason ? ` (${sosIncident.reason})` : ''}`);
+     }
+     if (lines.length === 1) lines.push('- Nothing in progress');
+     const recent = resumed ? [] : transcriptRef.current?.recentTurns(6) || [];
+     if (recent.length > 0) {
+         lines.push('Last few lines of the conversation:');
+         recent.forEach(turn => lines.push(`${turn.speaker === 'user' ? 'User' : 'You'}: ${turn.text}`));
+     }
+     lines.push('Do not greet again. Say briefly "Sorry ah, line cut just now" and carry on helping.');
+
+     return lines.join('\n');
+  };
 
+  const stopSession = () => {
+     // Close the session if it exists (clear the ref first so the manager's 'closed' status is not treated as a drop)
+     const liveSession = liveSessionRef.current;
+     liveSessionRef.current = null;
+     if (liveSession) liveSession.stop();
+     transcriptRef.current?.endTurn();
+     transcriptRef.current = null;
+
+     if (micCaptureRef.current) micCaptureRef.current.stop();
+     micCaptureRef.current = null;
+     if (playbackQueueRef.current) playbackQueueRef.current.flush();
+     playbackQueueRef.current = null;
      if (audioContextRef.current) audioContextRef.current.close();
-     if (inputSourceRef.current) inputSourceRef.current.disconnect();
-     if (processorRef.current) processorRef.current.disconnect();
      if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
 
      sessionRef.current = null;  // Clear the session reference
@@ -1554,6 +1894,11 @@ const AppContent = () => {
      setIsCamOn(false);
   };
 
+  // Keep the worklet's mute state in sync with the mic button
+  useEffect(() => {
+    micCaptureRef.current?.setMuted(!isMicOn);
+  }, [isMicOn]);
+
   // --- Video Streaming Logic ---
 
   useEffect(() => {
@@ -1592,14 +1937,8 @@ const AppContent = () => {
                     frameIntervalRef.current = window.setInterval(async () => {
                         if (!canvasRef.current || !videoRef.current || !sessionRef.current) return;
                         
-                        const ctx = canvasRef.current.getContext('2d');
-                        if (videoRef.current.readyState === 4 && videoRef.current.videoWidth > 0) {
-                            canvasRef.current.width = videoRef.current.videoWidth;
-                            canvasRef.current.height = videoRef.current.videoHeight;
-                            ctx?.drawImage(videoRef.current, 0, 0);
-                            
-                            const base64Data = canvasRef.current.toDataURL('image/jpeg', 0.6).split(',')[1];
-                            
+                        const base64Data = captureVideoFrame(videoRef.current, canvasRef.current, 0.6);
+                        if (base64Data) {
                             // Only send video frames if still connected and have a session
                         if (connected && sessionRef.current) {
                             try {
@@ -1716,6 +2055,25 @@ const AppContent = () => {
 
   // --- Quest Management Functions ---
 
+  // --- Rewards ---
+
+  // Stock is reserved and the voucher issued before any points are taken
+  const redeemRewardForPoints = useCallback(async (reward: Reward): Promise<Voucher> => {
+    // Debited against the latest ledger, not totalKP from the last render, so a double tap cannot spend twice
+    return redeemReward(getDatabase(app), reward, dataOwnerId, ledgerBalance(pointLedgerRef.current), voucher =>
+      applyToLedger(ledger =>
+        evaluateSpend(ledger, { referenceId: voucher.code, amount: voucher.priceKP, description: voucher.rewardName })
+      )
+    );
+  }, [dataOwnerId, applyToLedger]);
+
+  const lookupMerchantVoucher = useCallback((code: string) => lookupVoucher(getDatabase(app), code), []);
+
+  const redeemMerchantVoucher = useCallback(
+    (code: string) => redeemVoucher(getDatabase(app), code, myUserId),
+    [myUserId]
+  );
+
   const handleSelectDestination = useCallback((place: google.maps.places.PlaceResult) => {
     if (!location) {
       setErrorMsg("Location not available");
@@ -1723,11 +2081,11 @@ const AppContent = () => {
     }
 
     setSelectedDestination(place);
-    const newQuest = generateQuestFromDestination(place, location);
+    const newQuest = generateQuestFromDestination(place, location, { mobility: mobilityProfile });
 
     // Add quest to the list but don't activate it yet
     setQuests(prev => [...prev, newQuest]);
-  }, [location]);
+  }, [location, mobilityProfile]);
 
   const startQuest = useCallback((questId: string) => {
     const quest = quests.find(q => q.id === questId);
@@ -1749,7 +2107,7 @@ const AppContent = () => {
           session.sendRealtimeInput({
             media: {
               mimeType: 'text/plain',
-              data: btoa(navigationMessage)
+              data: textToBase64(navigationMessage)
             }
           });
         });
@@ -1768,19 +2126,33 @@ const AppContent = () => {
       )
     };
 
-    // Calculate progress
+    // Calculate progress; reaching the destination is the last leg, so checkpoints alone never finish the quest,
+    // and arriving finishes it even if a checkpoint was skipped
     const completedWaypoints = updatedQuest.waypoints.filter(wp => wp.completed).length;
-    updatedQuest.progress = (completedWaypoints / updatedQuest.waypoints.length) * 100;
+    const expectedWaypoints = updatedQuest.waypoints.filter(wp => wp.completed || !wp.skipped).length;
+    const arrived = waypointId === 'destination';
+    updatedQuest.progress = arrived ? 100 : (completedWaypoints / (expectedWaypoints + 1)) * 100;
 
     // Award partial KP for checkpoint
-    setTotalKP(prev => prev + 10);
+    awardPoints({
+      source: 'checkpoint',
+      referenceId: `${activeQuest.id}/${waypointId}`,
+      description: arrived
+        ? `Reached ${activeQuest.destination.name}`
+        : `Reached ${activeQuest.waypoints.find(wp => wp.id === waypointId)?.name || 'a checkpoint'}`
+    });
 
     // Check if quest is complete
     if (updatedQuest.progress === 100) {
       updatedQuest.status = 'completed';
       // Award full quest rewards
       const rewardAmount = parseInt(updatedQuest.reward.split(' ')[0]);
-      setTotalKP(prev => prev + rewardAmount);
+      awardPoints({
+        source: 'quest_complete',
+        referenceId: updatedQuest.id,
+        amount: rewardAmount,
+        description: updatedQuest.title
+      });
 
       // Notify completion with Singlish encouragement
       if (sessionRef.current && connected) {
@@ -1788,20 +2160,21 @@ const AppContent = () => {
           session.sendRealtimeInput({
             media: {
               mimeType: 'text/plain',
-              data: btoa(`Wah shiok! You reach ${updatedQuest.destination.name} already! Quest complete! You earned ${updatedQuest.reward}! Steady lah!`)
+              data: textToBase64(`Wah shiok! You reach ${updatedQuest.destination.name} already! Quest complete! You earned ${updatedQuest.reward}! Steady lah!`)
             }
           });
         });
       }
     } else {
       // Notify checkpoint reached
-      const nextWaypoint = updatedQuest.waypoints.find(wp => !wp.completed);
+      const reached = updatedQuest.waypoints.find(wp => wp.id === waypointId);
+      const nextWaypoint = updatedQuest.waypoints.find(isWaypointPending);
       if (sessionRef.current && connected) {
         sessionRef.current.then((session: any) => {
           session.sendRealtimeInput({
             media: {
               mimeType: 'text/plain',
-              data: btoa(`Steady! Checkpoint reached! ${nextWaypoint ? `Next checkpoint coming up: ${nextWaypoint.name}` : 'Final destination ahead!'}`)
+              data: textToBase64(`${reached?.type === 'rest' ? 'Rest point here, sit down and rest a while first!' : 'Steady! Checkpoint reached!'} ${nextWaypoint ? `Next checkpoint coming up: ${nextWaypoint.name}` : 'Final destination ahead!'}`)
             }
           });
         });
@@ -1812,7 +2185,7 @@ const AppContent = () => {
     setQuests(prev => prev.map(q =>
       q.id === updatedQuest.id ? updatedQuest : q
     ));
-  }, [activeQuest, connected]);
+  }, [activeQuest, connected, awardPoints]);
 
   const cancelQuest = useCallback(() => {
     if (activeQuest) {
@@ -1823,6 +2196,34 @@ const AppContent = () => {
     }
   }, [activeQuest]);
 
+  // Picked from the on-screen list instead of answering Ketua out loud
+  const chooseDestination = useCallback(async (candidate: DestinationCandidate) => {
+    if (!toolContextRef.current) return;
+    setChoosingDestination(true);
+    try {
+      const result = await startQuestToCandidate(
+        candidate, toolContextRef.current, destinationChoice?.travelMode
+      ) as { success?: boolean; message?: string };
+      if (!result.success) {
+        setErrorMsg(result.message || "Cannot start navigation");
+        setTimeout(() => setErrorMsg(null), 3000);
+      } else if (sessionRef.current && connected) {
+        sessionRef.current.then((session: any) => {
+          session.sendRealtimeInput({
+            media: {
+              mimeType: 'text/plain',
+              data: textToBase64(
+                `The user tapped ${candidate.name} (${candidate.address}) on screen, no need to call confirmQuestDestination. ${result.message}`
+              )
+            }
+          });
+        });
+      }
+    } finally {
+      setChoosingDestination(false);
+    }
+  }, [connected, destinationChoice]);
+
   // --- Event Management Functions ---
 
   const joinEvent = useCallback((eventId: string) => {
@@ -1846,9 +2247,13 @@ const AppContent = () => {
       return event;
     }));
 
-    // Award points for joining
-    setTotalKP(prev => prev + 10);
-  }, [myUserId]);
+    // Award points for joining; leaving and rejoining earns nothing more
+    awardPoints({
+      source: 'event_join',
+      referenceId: eventId,
+      description: communityEvents.find(event => event.id === eventId)?.name || 'Community event'
+    });
+  }, [myUserId, communityEvents, awardPoints]);
 
   const leaveEvent = useCallback((eventId: string) => {
     if (!myUserId) return;
@@ -1891,7 +2296,7 @@ const AppContent = () => {
     };
 
     // Create the quest
-    const newQuest = generateQuestFromDestination(mockPlace, location);
+    const newQuest = generateQuestFromDestination(mockPlace, location, { mobility: mobilityProfile });
     setQuests(prev => [...prev, newQuest]);
 
     // Automatically start the quest to show directions
@@ -1899,7 +2304,7 @@ const AppContent = () => {
       setActiveQuest({ ...newQuest, status: 'active' });
       setSelectedDestination(null);
     }, 100);
-  }, [location]);
+  }, [location, mobilityProfile]);
 
   // --- Photo Check-In Functions ---
 
@@ -1930,7 +2335,8 @@ const AppContent = () => {
 
     const checkIn: CheckInPhoto = {
       id: `checkin-${Date.now()}`,
-      userId: myUserId,
+      // The Firebase uid, so check-ins still count towards badges on another device
+      userId: dataOwnerId,
       userName: currentUser?.displayName || currentUser?.email?.split('@')[0] || myUserId || 'Villager',
       photoUrl: capturedPhoto,
       timestamp: Date.now(),
@@ -1948,8 +2354,12 @@ const AppContent = () => {
         }
         return event;
       }));
-      // Award points for event check-in
-      setTotalKP(prev => prev + 20);
+      // Award points for event check-in, once per event per day
+      awardPoints({
+        source: 'event_check_in',
+        referenceId: `${checkInTarget.id}/${toDateKey(checkIn.timestamp)}`,
+        description: communityEvents.find(event => event.id === checkInTarget.id)?.name || 'Community event'
+      });
     } else if (checkInTarget.type === 'waypoint' && activeQuest) {
       const updatedQuest = {
         ...activeQuest,
@@ -1968,7 +2378,11 @@ const AppContent = () => {
         q.id === updatedQuest.id ? updatedQuest : q
       ));
       // Award points for waypoint check-in
-      setTotalKP(prev => prev + 15);
+      awardPoints({
+        source: 'waypoint_check_in',
+        referenceId: `${activeQuest.id}/${checkInTarget.id}`,
+        description: activeQuest.waypoints.find(wp => wp.id === checkInTarget.id)?.name || 'Checkpoint'
+      });
     } else if (checkInTarget.type === 'quest' && activeQuest) {
       const updatedQuest = {
         ...activeQuest,
@@ -1979,7 +2393,11 @@ const AppContent = () => {
         q.id === updatedQuest.id ? updatedQuest : q
       ));
       // Award points for quest completion check-in
-      setTotalKP(prev => prev + 30);
+      awardPoints({
+        source: 'quest_check_in',
+        referenceId: activeQuest.id,
+        description: activeQuest.destination.name
+      });
     }
 
     // Reset camera state
@@ -1993,7 +2411,7 @@ const AppContent = () => {
       stream.getTracks().forEach(track => track.stop());
       checkInVideoRef.current.srcObject = null;
     }
-  }, [capturedPhoto, checkInTarget, myUserId, location, currentUser, activeQuest]);
+  }, [capturedPhoto, checkInTarget, dataOwnerId, myUserId, location, currentUser, activeQuest, communityEvents, awardPoints]);
 
   // Start check-in camera
   useEffect(() => {
@@ -2030,157 +2448,111 @@ const AppContent = () => {
 
   // Start QR scanner camera
   useEffect(() => {
-    let stream: MediaStream | null = null;
-
-    const startQRScanner = async () => {
-      if (showQRScanner && qrVideoRef.current && qrCanvasRef.current) {
-        try {
-          stream = await navigator.mediaDevices.getUserMedia({
-            video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
-            audio: false
-          });
+    if (!showQRScanner || !qrVideoRef.current || !qrCanvasRef.current) return;
 
-          if (qrVideoRef.current) {
-            qrVideoRef.current.srcObject = stream;
-            await qrVideoRef.current.play();
-
-            // Start scanning for QR codes
-            const canvas = qrCanvasRef.current;
-            const video = qrVideoRef.current;
-            const ctx = canvas.getContext('2d');
-
-            // Try to use native BarcodeDetector if available
-            if ('BarcodeDetector' in window) {
-              const barcodeDetector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
-
-              qrScanIntervalRef.current = window.setInterval(async () => {
-                if (video.readyState === 4 && !qrScanResult) {
-                  canvas.width = video.videoWidth;
-                  canvas.height = video.videoHeight;
-                  ctx?.drawImage(video, 0, 0);
-
-                  try {
-                    const barcodes = await barcodeDetector.detect(canvas);
-                    if (barcodes.length > 0) {
-                      const qrData = barcodes[0].rawValue;
-                      // Check if it's a valid Kampung ID
-                      if (qrData.startsWith('KP-')) {
-                        setQrScanResult(qrData);
-                        if (qrScanIntervalRef.current) {
-                          clearInterval(qrScanIntervalRef.current);
-                        }
-                      }
-                    }
-                  } catch (err) {
-                    console.error('QR scan error:', err);
-                  }
-                }
-              }, 500); // Scan every 500ms
-            } else {
-              // Fallback: Simulate QR detection for demo
-              // In production, you'd use a library like jsQR here
-              console.log('BarcodeDetector not available. QR scanning requires a compatible browser or library.');
-              setErrorMsg('QR scanning not supported on this browser. Please enter the ID manually.');
-              setTimeout(() => setShowQRScanner(false), 3000);
-            }
-          }
-        } catch (err) {
-          console.error("Camera access failed for QR scanner:", err);
-          setErrorMsg("Could not access camera");
-          setShowQRScanner(false);
-        }
-      }
-    };
+    if (!isQrScanningSupported()) {
+      // In production, you'd fall back to a library like jsQR here
+      setErrorMsg('QR scanning not supported on this browser. Please enter the ID manually.');
+      const timeout = setTimeout(() => setShowQRScanner(false), 3000);
+      return () => clearTimeout(timeout);
+    }
 
-    startQRScanner();
+    let scanner: QrScanner | null = null;
+    let cancelled = false;
+    startQrScanner(qrVideoRef.current, qrCanvasRef.current, (qrData) => {
+      // Check if it's a valid Kampung ID
+      if (!qrData.startsWith('KP-')) return false;
+      setQrScanResult(qrData);
+      return true;
+    })
+      .then(started => {
+        if (cancelled) started.stop();
+        else scanner = started;
+      })
+      .catch(err => {
+        console.error("Camera access failed for QR scanner:", err);
+        setErrorMsg("Could not access camera");
+        setShowQRScanner(false);
+      });
 
     return () => {
-      if (qrScanIntervalRef.current) {
-        clearInterval(qrScanIntervalRef.current);
+      cancelled = true;
+      scanner?.stop();
+    };
+  }, [showQRScanner]);
+
+  // Spoken navigation prompts go through Ketua when connected, otherwise the browser voice
+  const sendNavigationPrompt = useCallback((text: string) => {
+    if (!sessionRef.current || !connected) {
+      if ('speechSynthesis' in window) {
+        window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
       }
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    sessionRef.current.then((session: any) => {
+      session.sendRealtimeInput({
+        media: {
+          mimeType: 'text/plain',
+          data: textToBase64(text)
+        }
+      });
+    });
+  }, [connected]);
+
+  // New walking directions from the current position when the user strays
+  const rerouteActiveQuest = useCallback(async () => {
+    if (!activeQuest || !location || reroutingRef.current) return;
+    reroutingRef.current = true;
+    try {
+      const questId = activeQuest.id;
+      const rerouted = await rerouteQuest(activeQuest, location, mobilityProfile);
+      navigationEngineRef.current.reset();
+      // Merged into the latest copy: checkpoints may have been reached while waiting for directions
+      const applyReroute = (quest: Quest): Quest => ({
+        ...quest,
+        ...rerouted,
+        waypoints: skipWaypointsOffRoute(quest.waypoints, rerouted.route)
+      });
+      setActiveQuest(current => (current && current.id === questId ? applyReroute(current) : current));
+      setQuests(prev => prev.map(q => q.id === questId ? applyReroute(q) : q));
+      console.log('[NAV] Re-routed from', location);
+
+      const firstStep = rerouted.navigationSteps?.[0];
+      if (firstStep) {
+        sendNavigationPrompt(`Okay, new route found. ${firstStep.instruction}`);
       }
-    };
-  }, [showQRScanner, qrScanResult]);
+    } catch (error) {
+      console.error('[NAV] Re-route failed:', error);
+      sendNavigationPrompt("Cannot get a new route now. Follow the green line on the map to go back to the route.");
+    } finally {
+      reroutingRef.current = false;
+    }
+  }, [activeQuest, location, mobilityProfile, sendNavigationPrompt]);
 
   // Watch user location for quest progress and provide navigation updates
   useEffect(() => {
     if (!activeQuest || activeQuest.status !== 'active' || !location) return;
 
-    // Auto-advance navigation steps based on proximity
-    if (activeQuest.navigationSteps && activeQuest.currentStepIndex !== undefined) {
-      const totalSteps = activeQuest.navigationSteps.length;
-      const progressRatio = activeQuest.progress / 100;
-      const expectedStepIndex = Math.min(
-        Math.floor(progressRatio * totalSteps),
-        totalSteps - 1
-      );
-      
-      // Update to next step if user has progressed
-      if (expectedStepIndex > activeQuest.currentStepIndex && sessionRef.current && connected) {
-        const updatedQuest = { ...activeQuest, currentStepIndex: expectedStepIndex };
-        setActiveQuest(updatedQuest);
-        setQuests(prev => prev.map(q => q.id === updatedQuest.id ? updatedQuest : q));
-        
-        // Announce next step
-        const nextStep = activeQuest.navigationSteps[expectedStepIndex];
-        sessionRef.current.then((session: any) => {
-          session.sendRealtimeInput({
-            media: {
-              mimeType: 'text/plain',
-              data: btoa(`Next: ${nextStep.instruction}`)
-            }
-          });
-        });
-      }
-    }
+    const update = navigationEngineRef.current.update(activeQuest, location);
 
-    // Check proximity to waypoints
-    activeQuest.waypoints.forEach(waypoint => {
-      if (!waypoint.completed) {
-        const distance = Math.sqrt(
-          Math.pow(waypoint.lat - location.lat, 2) +
-          Math.pow(waypoint.lng - location.lng, 2)
-        ) * 111000; // Convert to meters
-
-        if (distance < 50) { // Within 50 meters of waypoint
-          handleWaypointReached(waypoint.id);
-        } else if (distance < 100 && sessionRef.current && connected) {
-          // Approaching waypoint - give voice update
-          sessionRef.current.then((session: any) => {
-            session.sendRealtimeInput({
-              media: {
-                mimeType: 'text/plain',
-                data: btoa(`Checkpoint coming up in ${Math.round(distance)} meters! Keep going straight!`)
-              }
-            });
-          });
-        }
-      }
-    });
+    if (update.stepIndex !== (activeQuest.currentStepIndex ?? 0)) {
+      const updatedQuest = { ...activeQuest, currentStepIndex: update.stepIndex };
+      setActiveQuest(updatedQuest);
+      setQuests(prev => prev.map(q => q.id === updatedQuest.id ? updatedQuest : q));
+    }
 
-    // Check proximity to destination
-    const destDistance = Math.sqrt(
-      Math.pow(activeQuest.destination.lat - location.lat, 2) +
-      Math.pow(activeQuest.destination.lng - location.lng, 2)
-    ) * 111000;
+    update.announcements.forEach(sendNavigationPrompt);
 
-    if (destDistance < 50 && activeQuest.waypoints.every(wp => wp.completed)) {
-      // Quest complete!
+    if (update.reachedWaypointId) {
+      handleWaypointReached(update.reachedWaypointId);
+    } else if (update.arrived) {
       handleWaypointReached('destination');
-    } else if (destDistance < 100 && activeQuest.waypoints.every(wp => wp.completed) && sessionRef.current && connected) {
-      // Approaching destination
-      sessionRef.current.then((session: any) => {
-        session.sendRealtimeInput({
-          media: {
-            mimeType: 'text/plain',
-            data: btoa(`Almost there! ${activeQuest.destination.name} is just ${Math.round(destDistance)} meters away!`)
-          }
-        });
-      });
     }
-  }, [location, activeQuest, connected]);
+
+    if (update.offRoute) {
+      rerouteActiveQuest();
+    }
+  }, [location, activeQuest, sendNavigationPrompt, handleWaypointReached, rerouteActiveQuest]);
 
   // --- UI Renders ---
 
@@ -2236,8 +2608,8 @@ const AppContent = () => {
                 </p>
             </div>
          </div>
-         {mode === 'distress' && (
-             <div className="bg-red-600 px-3 py-1 rounded-full animate-pulse font-bold text-xs shadow-lg shadow-red-900/50">SOS MODE</div>
+         {(mode === 'distress' || sosIncident?.status === 'active') && (
+             <button onClick={() => setMode('distress')} className="bg-red-600 px-3 py-1 rounded-full animate-pulse font-bold text-xs shadow-lg shadow-red-900/50">SOS MODE</button>
          )}
       </header>
 
@@ -2251,6 +2623,12 @@ const AppContent = () => {
              </div>
          )}
 
+         {connected && liveStatus === 'reconnecting' && !errorMsg && (
+             <div className="absolute top-20 bg-yellow-600/90 text-white px-4 py-2 rounded-full text-sm font-medium animate-pulse z-30">
+                 Line cut - reconnecting to Ketua...
+             </div>
+         )}
+
          {/* The AI Circle / Camera Container */}
          <div className="relative z-10 flex flex-col items-center gap-8">
              <div 
@@ -2258,8 +2636,8 @@ const AppContent = () => {
                     ${connected ? 'border-teal-400/30 shadow-[0_0_60px_rgba(45,212,191,0.4)]' : 'border-gray-700 bg-gray-800'}
                 `}
                 style={{
-                    width: connected ? `${160 + (volumeLevel * 1.2)}px` : '160px',
-                    height: connected ? `${160 + (volumeLevel * 1.2)}px` : '160px',
+                    width: !connected ? '160px' : isSpeaking ? '220px' : `${160 + (volumeLevel * 1.2)}px`,
+                    height: !connected ? '160px' : isSpeaking ? '220px' : `${160 + (volumeLevel * 1.2)}px`,
                 }}
              >
                  {/* 1. Video Layer (Only if Cam ON) */}
@@ -2287,7 +2665,7 @@ const AppContent = () => {
                         !isCamOn && !isMicOn ? (
                             <MicOff className="w-12 h-12 text-white/50" /> 
                         ) : (
-                           !isCamOn && <Activity className={`w-12 h-12 text-white opacity-80 ${volumeLevel > 10 ? 'animate-pulse' : ''}`} />
+                           !isCamOn && <Activity className={`w-12 h-12 text-white opacity-80 ${isSpeaking || volumeLevel > 10 ? 'animate-pulse' : ''}`} />
                         )
                      )}
                  </div>
@@ -2303,9 +2681,11 @@ const AppContent = () => {
                                     <span>📷</span> Analyzing mood...
                                 </span>
                             ) : (
-                                isMicOn 
-                                    ? (volumeLevel > 10 ? "Ketua Listening..." : "Ketua Kampung ready.") 
-                                    : "LISTENING PAUSED"
+                                isSpeaking
+                                    ? "Ketua Speaking..."
+                                    : isMicOn 
+                                        ? (volumeLevel > 10 ? "Ketua Listening..." : "Ketua Kampung ready.") 
+                                        : "LISTENING PAUSED"
                             )}
                         </p>
                         
@@ -2344,6 +2724,13 @@ const AppContent = () => {
 
       </div>
 
+      {/* Scam Analysis Result (from the analyseScamMessage voice tool) */}
+      {scamAnalysis && mode === 'voice' && (
+          <div className="absolute inset-x-4 bottom-32 z-20 max-h-[60vh] overflow-y-auto animate-fade-in">
+              <ScamAnalysisCard analysis={scamAnalysis} onDismiss={() => setScamAnalysis(null)} />
+          </div>
+      )}
+
       {/* Bottom Controls */}
       <div className="p-8 pb-12 flex justify-center items-center gap-6 z-20 relative">
           {connected && (
@@ -2428,11 +2815,60 @@ const AppContent = () => {
                              <span className="text-xs opacity-50">Share ID</span>
                           </div>
                       </button>
+                      <button onClick={() => {setMode('wellbeing'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <Heart className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Wellbeing</span>
+                             <span className="text-xs opacity-50">Mood timeline & weekly report</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('chat'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <MessageSquare className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Chat with Ketua</span>
+                             <span className="text-xs opacity-50">Type instead of talking</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('history'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <History className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Conversation History</span>
+                             <span className="text-xs opacity-50">Search what Ketua said</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('rewards'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <Gift className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Rewards</span>
+                             <span className="text-xs opacity-50">Spend your Kampung Points</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('mobility'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <Accessibility className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Getting Around</span>
+                             <span className="text-xs opacity-50">Wheelchair, walker & rest stops</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('merchant'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <Store className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Merchant Scan</span>
+                             <span className="text-xs opacity-50">Redeem a customer's voucher</span>
+                          </div>
+                      </button>
+                      <button onClick={() => {setMode('scam'); setShowDrawer(false)}} className="w-full text-left p-4 rounded-xl hover:bg-slate-800 text-gray-300 flex items-center gap-3 transition-colors">
+                          <Shield className="w-5 h-5" />
+                          <div>
+                             <span className="block font-medium">Scam Shield</span>
+                             <span className="text-xs opacity-50">Check & report numbers</span>
+                          </div>
+                      </button>
                   </div>
 
                   <div className="mt-auto pt-6 border-t border-slate-800 space-y-3">
                       <button
-                        onClick={() => { setMode('distress'); setShowDrawer(false); }}
+                        onClick={() => { triggerSos('button'); setShowDrawer(false); }}
                         className="w-full p-4 rounded-xl bg-red-900/50 text-red-400 border border-red-900 flex items-center justify-center gap-2 font-bold hover:bg-red-900/80 transition shadow-lg shadow-red-900/20"
                       >
                           <AlertTriangle className="w-5 h-5" />
@@ -2456,12 +2892,26 @@ const AppContent = () => {
       {/* Hidden audio element for remote call audio */}
       <audio ref={remoteAudioRef} autoPlay />
 
+      {/* Incoming SOS Alert */}
+      {incomingSos && !callState.isInCall && (
+          <IncomingSosModal
+              alert={incomingSos}
+              liveLocation={incomingSosLocation}
+              onCallBack={() => {
+                  const { from, fromName } = incomingSos;
+                  dismissIncomingSos();
+                  initiateCall(from, fromName);
+              }}
+              onDismiss={dismissIncomingSos}
+          />
+      )}
+
       {/* Incoming Call Modal */}
       {callState.callType === 'incoming' && !callState.isInCall && (
           <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center animate-fade-in">
-              <div className="bg-slate-800 rounded-3xl p-8 text-center max-w-sm mx-4">
-                  <PhoneIncoming className="w-16 h-16 text-green-400 mx-auto mb-4 animate-pulse" />
-                  <h3 className="text-xl font-bold text-white mb-2">Incoming Call</h3>
+              <div className={`bg-slate-800 rounded-3xl p-8 text-center max-w-sm mx-4 ${callState.isSos ? 'border-4 border-red-500' : ''}`}>
+                  <PhoneIncoming className={`w-16 h-16 mx-auto mb-4 animate-pulse ${callState.isSos ? 'text-red-400' : 'text-green-400'}`} />
+                  <h3 className="text-xl font-bold text-white mb-2">{callState.isSos ? 'SOS Call' : 'Incoming Call'}</h3>
                   <p className="text-gray-400 mb-6">{callState.remoteUserName || callState.remoteUserId}</p>
                   <div className="flex gap-4 justify-center">
                       <button
@@ -2561,6 +3011,86 @@ const AppContent = () => {
       )}
 
       {/* Overlays for other modes */}
+      {mode === 'distress' && sosIncident && (
+          <DistressOverlay
+              incident={sosIncident}
+              countdown={sosCountdown}
+              paused={sosPaused}
+              log={sosLog}
+              contactNames={Object.fromEntries(connections.map(c => [c.id, c.name]))}
+              location={location}
+              onCancel={cancelSos}
+              onSendNow={() => setSosCountdown(0)}
+              onResolve={resolveSos}
+              onClose={closeSos}
+          />
+      )}
+
+      {mode === 'wellbeing' && (
+          <WellbeingView
+              readings={moodHistory}
+              userName={currentUser?.displayName || currentUser?.email?.split('@')[0] || 'Villager'}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'chat' && (
+          <TextChatView
+              messages={chatMessages}
+              busy={chatBusy}
+              onSend={sendChatMessage}
+              onJoinEvent={joinEvent}
+              onOpenQuest={() => { setMode('quest'); setQuestView('map'); }}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'history' && (
+          <ConversationHistoryView
+              conversations={conversations}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'rewards' && (
+          <RewardsView
+              rewards={REWARD_CATALOGUE}
+              stock={rewardStock}
+              vouchers={vouchers}
+              balance={totalKP}
+              onRedeem={redeemRewardForPoints}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'merchant' && (
+          <MerchantScanView
+              onLookup={lookupMerchantVoucher}
+              onRedeem={redeemMerchantVoucher}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'mobility' && (
+          <MobilityProfileView
+              profile={mobilityProfile}
+              onSave={updateMobilityProfile}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
+      {mode === 'scam' && (
+          <ScamShieldView
+              blocklist={scamBlocklist}
+              onCheck={scamChecker.check}
+              onReport={reportScam}
+              onAnalyseText={text => analyseMessage({ text })}
+              onAnalyseCamera={() => analyseMessage({ imageBase64: captureCameraFrame() })}
+              cameraReady={connected && isCamOn}
+              onClose={() => setMode('voice')}
+          />
+      )}
+
       {mode === 'connect' && (
           <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
               {/* Header */}
@@ -2797,7 +3327,8 @@ const AppContent = () => {
                    <div className="p-6 space-y-6">
                       {/* Welcome Card */}
                       <div className="bg-gradient-to-br from-teal-600 to-blue-600 rounded-3xl p-6 text-white shadow-2xl">
-                         <h3 className="text-2xl font-bold mb-2">Welcome back! 🎉</h3>
+                         <h3 className="text-2xl font-bold mb-1">Welcome back! 🎉</h3>
+                         <p className="text-sm font-bold opacity-90 mb-2">Level {level.level} • {level.title}</p>
                          <p className="text-lg opacity-90">
                             {activeQuest
                                ? `You're ${Math.round(activeQuest.progress)}% through your quest!`
@@ -2852,6 +3383,10 @@ const AppContent = () => {
                          </div>
                       )}
 
+                      <AchievementsPanel stats={activityStats} earnedBadges={earnedBadges} />
+
+                      <PointsLedgerCard ledger={pointLedger} onOpenRewards={() => setMode('rewards')} />
+
                       {/* Today's Events */}
                       <div>
                          <h4 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
@@ -3105,7 +3640,7 @@ const AppContent = () => {
                       />
 
                       {/* Active Quest Overlay */}
-                      {activeQuest && (
+                      {activeQuest && !destinationChoice && (
                          <div className="absolute bottom-4 left-4 right-4 bg-slate-900/95 backdrop-blur-lg rounded-2xl p-4 border-2 border-teal-500 shadow-2xl">
                             {/* Navigation Step */}
                             {activeQuest.navigationSteps && activeQuest.currentStepIndex !== undefined && 
@@ -3116,6 +3651,12 @@ const AppContent = () => {
                                      <div className="flex-1">
                                         <p className="text-xs text-white/80 mb-1 font-semibold uppercase tracking-wider">
                                            Step {activeQuest.currentStepIndex + 1} of {activeQuest.navigationSteps.length}
+                                           {activeQuest.navigationSteps[activeQuest.currentStepIndex].transit && (
+                                              <span className="ml-2 px-2 py-0.5 rounded bg-white/20 normal-case">
+                                                 {activeQuest.navigationSteps[activeQuest.currentStepIndex].transit!.vehicle === 'bus' ? '🚌 Bus' : '🚇 MRT'}{' '}
+                                                 {activeQuest.navigationSteps[activeQuest.currentStepIndex].transit!.line}
+                                              </span>
+                                           )}
                                         </p>
                                         <p className="text-white font-bold text-lg leading-tight mb-2">
                                            {activeQuest.navigationSteps[activeQuest.currentStepIndex].instruction}
@@ -3162,8 +3703,18 @@ const AppContent = () => {
                          </div>
                       )}
 
+                      {/* Destination Picker */}
+                      {destinationChoice && (
+                         <DestinationPicker
+                            choice={destinationChoice}
+                            busy={choosingDestination}
+                            onChoose={chooseDestination}
+                            onCancel={() => setDestinationChoice(null)}
+                         />
+                      )}
+
                       {/* Selected Event Overlay */}
-                      {selectedEvent && !activeQuest && (
+                      {selectedEvent && !activeQuest && !destinationChoice && (
                          <div className="absolute bottom-4 left-4 right-4 bg-slate-900/95 backdrop-blur-lg rounded-2xl p-5 border-2 border-blue-500 shadow-2xl">
                             <h3 className="font-bold text-white text-xl mb-2">{selectedEvent.name}</h3>
                             <p className="text-gray-300 mb-3">{selectedEvent.description}</p>
@@ -3337,13 +3888,6 @@ const AppContent = () => {
                   onClick={() => {
                      setShowQRScanner(false);
                      setQrScanResult(null);
-                     if (qrScanIntervalRef.current) {
-                        clearInterval(qrScanIntervalRef.current);
-                     }
-                     if (qrVideoRef.current?.srcObject) {
-                        const stream = qrVideoRef.current.srcObject as MediaStream;
-                        stream.getTracks().forEach(track => track.stop());
-                     }
                   }}
                   className="p-2 bg-slate-800 rounded-full"
                >
@@ -3390,13 +3934,6 @@ const AppContent = () => {
                               setConnectInput(qrScanResult);
                               setShowQRScanner(false);
                               setQrScanResult(null);
-                              if (qrScanIntervalRef.current) {
-                                 clearInterval(qrScanIntervalRef.current);
-                              }
-                              if (qrVideoRef.current?.srcObject) {
-                                 const stream = qrVideoRef.current.srcObject as MediaStream;
-                                 stream.getTracks().forEach(track => track.stop());
-                              }
                               // Switch to add tab and auto-add
                               setConnectTab('add');
                               setTimeout(() => addConnection(), 100);
@@ -0,0 +1,98 @@
+import pcmCaptureWorkletUrl from './pcmCaptureWorklet.js?url';
+
+// --- Microphone Capture (AudioWorklet) ---
+// Resampling and PCM16 encoding happen on the audio thread, so main-thread
+// jank (map rendering, React updates) no longer drops mic audio.
+
+export interface MicCaptureOptions {
+  targetSampleRate?: number;
+  chunkMs?: number;
+  muted?: boolean;
+  onChunk: (base64Pcm: string, mimeType: string) => void;
+  onLevel?: (level: number) => void; // 0-100
+}
+
+export interface MicCapture {
+  sampleRate: number;
+  setMuted: (muted: boolean) => void;
+  // Disconnects the graph and stops the mic tracks
+  stop: () => void;
+}
+
+const DEFAULT_TARGET_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 100;
+
+// addModule must only run once per AudioContext
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadWorklet = (ctx: AudioContext) => {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    loading = ctx.audioWorklet.addModule(pcmCaptureWorkletUrl);
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const startMicCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: MicCaptureOptions
+): Promise<MicCapture> => {
+  if (!ctx.audioWorklet) {
+    throw new Error('AudioWorklet not supported in this browser');
+  }
+
+  // Never upsample: very old devices may run the context below 16 kHz
+  const sampleRate = Math.min(options.targetSampleRate || DEFAULT_TARGET_SAMPLE_RATE, ctx.sampleRate);
+  const mimeType = `audio/pcm;rate=${sampleRate}`;
+
+  await loadWorklet(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: {
+      targetSampleRate: sampleRate,
+      chunkMs: options.chunkMs || DEFAULT_CHUNK_MS,
+      muted: !!options.muted
+    }
+  });
+
+  node.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; rms: number }>) => {
+    options.onLevel?.(Math.min(event.data.rms * 1000, 100));
+    options.onChunk(arrayBufferToBase64(event.data.pcm), mimeType);
+  };
+
+  // The node outputs silence; connecting it to the destination keeps it pulled
+  source.connect(node);
+  node.connect(ctx.destination);
+
+  console.log(`[MIC] Capture started: ${ctx.sampleRate} Hz -> ${sampleRate} Hz`);
+
+  return {
+    sampleRate,
+    setMuted: (muted) => {
+      node.port.postMessage({ type: 'mute', muted });
+      if (muted) options.onLevel?.(0);
+    },
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      console.log('[MIC] Capture stopped');
+    }
+  };
+};
@@ -0,0 +1,68 @@
+// --- PCM Capture Worklet ---
+// Runs on the audio rendering thread: downsamples mic input to the target
+// rate, encodes PCM16 and posts fixed-size chunks back to the main thread.
+// Loaded with audioWorklet.addModule(), so it cannot import anything.
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, chunkMs = 100, muted = false } = options.processorOptions || {};
+
+    // `sampleRate` is the AudioContext rate, a global in the worklet scope.
+    // The main thread never asks for a target above it, so ratio >= 1.
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunk = new Int16Array(Math.round(targetSampleRate * chunkMs / 1000));
+    this.chunkLength = 0;
+    this.sumSquares = 0;
+
+    // Box-filter state: average every `ratio` input samples into one output sample
+    this.position = 0;
+    this.accumulator = 0;
+    this.accumulated = 0;
+    this.muted = muted;
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'mute') {
+        this.muted = event.data.muted;
+        this.chunkLength = 0;
+        this.sumSquares = 0;
+      }
+    };
+  }
+
+  pushSample(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.sumSquares += s * s;
+
+    if (this.chunkLength === this.chunk.length) {
+      const pcm = this.chunk.slice().buffer;
+      const rms = Math.sqrt(this.sumSquares / this.chunkLength);
+      this.port.postMessage({ pcm, rms }, [pcm]);
+      this.chunkLength = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || this.muted) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      this.accumulator += input[i];
+      this.accumulated++;
+      this.position += 1;
+
+      if (this.position >= this.ratio) {
+        this.pushSample(this.accumulator / this.accumulated);
+        this.accumulator = 0;
+        this.accumulated = 0;
+        this.position -= this.ratio;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
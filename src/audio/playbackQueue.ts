@@ -0,0 +1,66 @@
+// --- Playback Queue ---
+// Schedules Ketua's audio chunks back to back and keeps hold of every
+// AudioBufferSourceNode, so a barge-in can stop the whole answer at once.
+
+export interface PlaybackQueueOptions {
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+export interface PlaybackQueue {
+  enqueue: (buffer: AudioBuffer) => void;
+  // Stops everything scheduled or playing and resets the schedule cursor
+  flush: () => void;
+  isSpeaking: () => boolean;
+}
+
+export const createPlaybackQueue = (
+  ctx: AudioContext,
+  options: PlaybackQueueOptions = {}
+): PlaybackQueue => {
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let speaking = false;
+
+  const setSpeaking = (value: boolean) => {
+    if (speaking === value) return;
+    speaking = value;
+    options.onSpeakingChange?.(value);
+  };
+
+  const enqueue = (buffer: AudioBuffer) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+
+    const startTime = Math.max(ctx.currentTime, nextStartTime);
+    source.start(startTime);
+    nextStartTime = startTime + buffer.duration;
+
+    sources.add(source);
+    source.onended = () => {
+      sources.delete(source);
+      if (sources.size === 0) setSpeaking(false);
+    };
+    setSpeaking(true);
+  };
+
+  const flush = () => {
+    sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    if (sources.size > 0) {
+      console.log(`[PLAYBACK] Flushed ${sources.size} queued chunks`);
+    }
+    sources.clear();
+    nextStartTime = 0;
+    setSpeaking(false);
+  };
+
+  return { enqueue, flush, isSpeaking: () => speaking };
+};
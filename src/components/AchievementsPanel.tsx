@@ -0,0 +1,90 @@
+import React from 'react';
+import { Calendar, Flame, Medal, Star } from 'lucide-react';
+import { ActivityStats, BADGES, isBadgeEarned, levelFor } from '../services/achievements';
+
+interface AchievementsPanelProps {
+  stats: ActivityStats;
+  earnedBadges: Record<string, number>;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+export const AchievementsPanel: React.FC<AchievementsPanelProps> = ({ stats, earnedBadges }) => {
+  const level = levelFor(stats.lifetimeKP);
+  const earnedCount = BADGES.filter(badge => earnedBadges[badge.id] || isBadgeEarned(badge, stats)).length;
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-6 border border-slate-700 space-y-5">
+      <h4 className="text-xl font-bold text-white flex items-center gap-2">
+        <Medal className="w-6 h-6 text-yellow-400" />
+        Achievements
+      </h4>
+
+      {/* Level */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-lg font-bold text-teal-400 flex items-center gap-2">
+            <Star className="w-5 h-5" />
+            Level {level.level}: {level.title}
+          </p>
+          <p className="text-sm text-gray-400">{stats.lifetimeKP} KP earned</p>
+        </div>
+        <div className="w-full bg-slate-700 rounded-full h-3">
+          <div
+            className="bg-gradient-to-r from-teal-400 to-yellow-400 h-3 rounded-full transition-all duration-500"
+            style={{ width: `${Math.round(level.progress * 100)}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          {level.nextKP !== null
+            ? `${level.nextKP - stats.lifetimeKP} KP more to Level ${level.level + 1}`
+            : 'Top level reached. Respect!'}
+        </p>
+      </div>
+
+      {/* Streaks */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-slate-700 rounded-xl p-4 text-center">
+          <Flame className={`w-6 h-6 mx-auto mb-1 ${stats.dailyStreak > 0 ? 'text-orange-400' : 'text-gray-500'}`} />
+          <p className="text-2xl font-bold text-white">{stats.dailyStreak}</p>
+          <p className="text-xs text-gray-400">day streak (best {stats.bestDailyStreak})</p>
+        </div>
+        <div className="bg-slate-700 rounded-xl p-4 text-center">
+          <Calendar className={`w-6 h-6 mx-auto mb-1 ${stats.weeklyStreak > 0 ? 'text-blue-400' : 'text-gray-500'}`} />
+          <p className="text-2xl font-bold text-white">{stats.weeklyStreak}</p>
+          <p className="text-xs text-gray-400">week streak</p>
+        </div>
+      </div>
+
+      {/* Badges */}
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Badges: {earnedCount} of {BADGES.length}</p>
+        <div className="grid grid-cols-2 gap-3">
+          {BADGES.map(badge => {
+            const { current, target } = badge.measure(stats);
+            const earnedAt = earnedBadges[badge.id];
+            const earned = !!earnedAt || current >= target;
+            return (
+              <div
+                key={badge.id}
+                className={`rounded-xl p-3 text-center border ${
+                  earned ? 'bg-yellow-900/30 border-yellow-500' : 'bg-slate-700/50 border-slate-700 opacity-60'
+                }`}
+              >
+                <p className={`text-3xl mb-1 ${earned ? '' : 'grayscale'}`}>{badge.emoji}</p>
+                <p className="font-bold text-white text-sm">{badge.name}</p>
+                <p className="text-xs text-gray-400">{badge.description}</p>
+                <p className="text-xs mt-1 font-bold text-teal-400">
+                  {earned
+                    ? earnedAt ? `Earned ${formatDate(earnedAt)}` : 'Earned'
+                    : `${Math.min(current, target)} / ${target}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Clock, History, Search, Volume2, Wrench, X } from 'lucide-react';
+import {
+  Conversation,
+  ConversationTurn,
+  describeToolCall,
+  searchConversations
+} from '../services/conversationLog';
+
+interface ConversationHistoryViewProps {
+  conversations: Conversation[];
+  onClose: () => void;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Re-read a turn with the browser voice
+const readAloud = (text: string) => {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+const TurnBubble: React.FC<{ turn: ConversationTurn; highlight?: boolean }> = ({ turn, highlight }) => {
+  const isUser = turn.speaker === 'user';
+  return (
+    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[85%] rounded-2xl p-3 ${isUser ? 'bg-teal-700' : 'bg-slate-800'} ${highlight ? 'ring-2 ring-yellow-400' : ''}`}>
+        <div className="flex items-center justify-between gap-3 mb-1">
+          <span className="text-xs font-bold text-white/70">{isUser ? 'You' : 'Ketua'}</span>
+          <span className="text-xs text-white/50">{formatTime(turn.timestamp)}</span>
+        </div>
+        {turn.text && <p className="text-white">{turn.text}</p>}
+        {turn.toolCalls?.map((call, index) => (
+          <p key={index} className="text-xs text-teal-300 mt-1 flex items-center gap-1">
+            <Wrench className="w-3 h-3" />
+            {describeToolCall(call)}
+          </p>
+        ))}
+        {turn.interrupted && <p className="text-xs text-gray-400 mt-1 italic">(interrupted)</p>}
+        {turn.text && (
+          <button
+            onClick={() => readAloud(turn.text)}
+            className="mt-2 text-xs text-white/60 hover:text-white flex items-center gap-1"
+          >
+            <Volume2 className="w-3 h-3" />
+            Read aloud
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ConversationHistoryView: React.FC<ConversationHistoryViewProps> = ({ conversations, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const matches = useMemo(() => searchConversations(conversations, search), [conversations, search]);
+  const selected = conversations.find(c => c.id === selectedId) || null;
+  const highlightIds = new Set(matches.find(m => m.conversation.id === selectedId)?.turns.map(t => t.id) || []);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => (selected ? setSelectedId(null) : onClose())}
+            className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <History className="w-5 h-5" />
+              {selected ? formatDateTime(selected.startedAt) : 'Conversation History'}
+            </h2>
+            <p className="text-xs text-gray-400">
+              {selected ? `${selected.turns.length} messages` : 'What you and Ketua talked about'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {!selected && (
+        <div className="p-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 bg-slate-800 rounded-xl px-4 py-3 border border-slate-700 focus-within:border-teal-400">
+            <Search className="w-5 h-5 text-gray-400" />
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search e.g. clinic, bus, scam"
+              className="flex-1 bg-transparent text-white placeholder-gray-500 outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {selected ? (
+          selected.turns.map(turn => (
+            <TurnBubble key={turn.id} turn={turn} highlight={highlightIds.has(turn.id)} />
+          ))
+        ) : matches.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            <History className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>{search ? 'Nothing found' : 'No conversations yet'}</p>
+          </div>
+        ) : (
+          matches.map(({ conversation, turns }) => {
+            const preview = turns[0] || conversation.turns.find(t => t.text);
+            return (
+              <button
+                key={conversation.id}
+                onClick={() => setSelectedId(conversation.id)}
+                className="w-full text-left bg-slate-800 rounded-xl p-4 hover:bg-slate-700 transition flex items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-400 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDateTime(conversation.startedAt)}
+                  </p>
+                  {preview && (
+                    <p className="text-white truncate mt-1">
+                      <span className="text-gray-400">{preview.speaker === 'user' ? 'You: ' : 'Ketua: '}</span>
+                      {preview.text}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {search ? `${turns.length} matching` : `${conversation.turns.length} messages`}
+                  </p>
+                </div>
+                <ChevronRight className="w-5 h-5 text-gray-500" />
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Clock, MapPin, Navigation, Star, X } from 'lucide-react';
+import { DestinationCandidate, DestinationChoice } from '../types';
+
+interface DestinationPickerProps {
+  choice: DestinationChoice;
+  busy: boolean;
+  onChoose: (candidate: DestinationCandidate) => void;
+  onCancel: () => void;
+}
+
+const CandidateDetails: React.FC<{ candidate: DestinationCandidate }> = ({ candidate }) => (
+  <p className="text-sm text-gray-400 flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+    <span>{candidate.distanceKm} km away</span>
+    {candidate.rating !== undefined && (
+      <span className="flex items-center gap-1">
+        <Star className="w-3 h-3 text-yellow-400" />
+        {candidate.rating.toFixed(1)}{candidate.ratingCount ? ` (${candidate.ratingCount})` : ''}
+      </span>
+    )}
+    {candidate.openNow !== undefined && (
+      <span className={`flex items-center gap-1 ${candidate.openNow ? 'text-green-400' : 'text-red-400'}`}>
+        <Clock className="w-3 h-3" />
+        {candidate.openNow ? 'Open now' : 'Closed now'}
+      </span>
+    )}
+  </p>
+);
+
+export const DestinationPicker: React.FC<DestinationPickerProps> = ({ choice, busy, onChoose, onCancel }) => (
+  <div className="absolute bottom-4 left-4 right-4 max-h-[70%] flex flex-col bg-slate-900/95 backdrop-blur-lg rounded-2xl border-2 border-teal-500 shadow-2xl">
+    <div className="p-4 flex items-start justify-between gap-3 border-b border-slate-800">
+      <div>
+        <h3 className="font-bold text-white text-xl">Which {choice.query}?</h3>
+        <p className="text-sm text-gray-400">Got a few nearby. Tap the one you want.</p>
+      </div>
+      <button onClick={onCancel} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+
+    <div className="overflow-y-auto p-3 space-y-2">
+      {choice.candidates.map((candidate, index) => (
+        <button
+          key={candidate.placeId}
+          onClick={() => onChoose(candidate)}
+          disabled={busy}
+          className="w-full text-left bg-slate-800 rounded-xl p-4 hover:bg-slate-700 disabled:opacity-50 transition flex items-center gap-3"
+        >
+          <span className="w-10 h-10 flex-shrink-0 rounded-full bg-teal-600 text-white text-lg font-bold flex items-center justify-center">
+            {index + 1}
+          </span>
+          <div className="flex-1 min-w-0">
+            <p className="font-bold text-white text-lg">{candidate.name}</p>
+            {candidate.address && (
+              <p className="text-sm text-gray-300 flex items-center gap-1">
+                <MapPin className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{candidate.address}</span>
+              </p>
+            )}
+            <CandidateDetails candidate={candidate} />
+          </div>
+          <Navigation className="w-5 h-5 text-teal-400 flex-shrink-0" />
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,244 @@
+import React from 'react';
+import { AlertTriangle, Check, MapPin, Phone, PhoneOff, ShieldCheck, Users, X } from 'lucide-react';
+import {
+  SosIncident,
+  SosLogEntry,
+  IncomingSosAlert,
+  SOS_COUNTDOWN_SECONDS,
+  formatMapsLink
+} from '../services/distress';
+
+interface DistressOverlayProps {
+  incident: SosIncident;
+  countdown: number;
+  // Held while Ketua is asking the user to confirm
+  paused?: boolean;
+  log: SosLogEntry[];
+  contactNames: Record<string, string>;
+  location: { lat: number; lng: number } | null;
+  onCancel: () => void;
+  onSendNow: () => void;
+  onResolve: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const DistressOverlay: React.FC<DistressOverlayProps> = ({
+  incident,
+  countdown,
+  paused,
+  log,
+  contactNames,
+  location,
+  onCancel,
+  onSendNow,
+  onResolve,
+  onClose
+}) => {
+  // Countdown screen - large cancel button so accidental presses are easy to undo
+  if (incident.status === 'countdown') {
+    const progress = ((SOS_COUNTDOWN_SECONDS - countdown) / SOS_COUNTDOWN_SECONDS) * 100;
+
+    return (
+      <div className="absolute inset-0 z-40 bg-red-950 flex flex-col items-center justify-center p-6 animate-fade-in">
+        <AlertTriangle className="w-16 h-16 text-red-400 mb-4 animate-pulse" />
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">Sending SOS Alert</h2>
+        {incident.reason && (
+          <p className="text-base text-red-300 mb-2 text-center">"{incident.reason}"</p>
+        )}
+        <p className="text-lg text-red-200 mb-8 text-center">
+          Your family and neighbours will be alerted in
+        </p>
+
+        <div className="relative w-48 h-48 mb-10">
+          <svg className="w-full h-full -rotate-90" viewBox="0 0 100 100">
+            <circle cx="50" cy="50" r="45" fill="none" stroke="rgba(255,255,255,0.15)" strokeWidth="8" />
+            <circle
+              cx="50"
+              cy="50"
+              r="45"
+              fill="none"
+              stroke="#f87171"
+              strokeWidth="8"
+              strokeDasharray={`${2 * Math.PI * 45}`}
+              strokeDashoffset={`${2 * Math.PI * 45 * (1 - progress / 100)}`}
+              className="transition-all duration-1000 ease-linear"
+            />
+          </svg>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-7xl font-bold text-white">{countdown}</span>
+          </div>
+        </div>
+        {paused && (
+          <p className="text-base text-red-200 -mt-6 mb-6 text-center">Paused while Ketua checks on you</p>
+        )}
+
+        <div className="w-full max-w-sm space-y-3">
+          <button
+            onClick={onCancel}
+            className="w-full py-5 bg-white text-slate-900 text-2xl font-bold rounded-2xl hover:bg-gray-100 transition shadow-2xl flex items-center justify-center gap-3"
+          >
+            <X className="w-8 h-8" />
+            I'm OK, Cancel
+          </button>
+          <button
+            onClick={onSendNow}
+            className="w-full py-4 bg-red-600 text-white text-lg font-bold rounded-2xl hover:bg-red-500 transition border-2 border-red-400"
+          >
+            Send Now
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isActive = incident.status === 'active';
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className={`p-4 flex justify-between items-center border-b ${isActive ? 'bg-red-900/60 border-red-800' : 'bg-slate-800 border-slate-700'}`}>
+        <div className="flex items-center gap-3">
+          {isActive ? (
+            <AlertTriangle className="w-8 h-8 text-red-400 animate-pulse" />
+          ) : (
+            <ShieldCheck className="w-8 h-8 text-green-400" />
+          )}
+          <div>
+            <h2 className="text-2xl font-bold text-white">
+              {isActive ? 'SOS Active' : incident.status === 'resolved' ? 'You are safe' : 'SOS Cancelled'}
+            </h2>
+            <p className="text-sm text-gray-300">Started {formatTime(incident.startedAt)}</p>
+          </div>
+        </div>
+        {!isActive && (
+          <button onClick={onClose} className="p-2 bg-slate-700 rounded-full hover:bg-slate-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {/* Contacts Alerted */}
+        <div className="bg-slate-800 rounded-2xl p-5">
+          <h3 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+            <Users className="w-5 h-5 text-teal-400" />
+            Contacts Alerted ({incident.notifiedContacts.length})
+          </h3>
+          {incident.notifiedContacts.length === 0 ? (
+            <p className="text-gray-400">No contacts could be reached. Add neighbours in Kampung Connect.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {incident.notifiedContacts.map(id => (
+                <span key={id} className="px-3 py-1 bg-teal-900/50 text-teal-300 rounded-full text-sm font-medium flex items-center gap-1">
+                  <Check className="w-4 h-4" />
+                  {contactNames[id] || id}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Live Location */}
+        <div className="bg-slate-800 rounded-2xl p-5">
+          <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+            <MapPin className="w-5 h-5 text-red-400" />
+            Live Location {isActive && <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />}
+          </h3>
+          {location ? (
+            <a
+              href={formatMapsLink(location)}
+              target="_blank"
+              rel="noreferrer"
+              className="text-teal-400 underline text-base font-mono"
+            >
+              {location.lat.toFixed(5)}, {location.lng.toFixed(5)}
+            </a>
+          ) : (
+            <p className="text-gray-400">Location not available</p>
+          )}
+        </div>
+
+        {/* Event Timeline */}
+        <div>
+          <h3 className="text-lg font-bold text-white mb-3">Timeline</h3>
+          <div className="space-y-2">
+            {log.map(entry => (
+              <div key={entry.id} className="flex gap-3 items-start bg-slate-800/60 rounded-xl p-3">
+                <span className="text-xs text-gray-400 font-mono pt-0.5 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                <span className="text-sm text-gray-200">{entry.message}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isActive && (
+        <div className="p-6 bg-slate-900/95 border-t border-slate-800">
+          <button
+            onClick={onResolve}
+            className="w-full py-5 bg-green-600 text-white text-2xl font-bold rounded-2xl hover:bg-green-500 transition shadow-2xl flex items-center justify-center gap-3"
+          >
+            <ShieldCheck className="w-8 h-8" />
+            I'm Safe Now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface IncomingSosModalProps {
+  alert: IncomingSosAlert;
+  liveLocation: { lat: number; lng: number } | null;
+  onCallBack: () => void;
+  onDismiss: () => void;
+}
+
+export const IncomingSosModal: React.FC<IncomingSosModalProps> = ({
+  alert,
+  liveLocation,
+  onCallBack,
+  onDismiss
+}) => {
+  const location = liveLocation || alert.location;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-red-950/90 flex items-center justify-center animate-fade-in">
+      <div className="bg-slate-800 rounded-3xl p-8 text-center max-w-sm mx-4 border-4 border-red-500">
+        <AlertTriangle className="w-16 h-16 text-red-400 mx-auto mb-4 animate-pulse" />
+        <h3 className="text-2xl font-bold text-white mb-2">SOS from {alert.fromName}</h3>
+        <p className="text-gray-300 mb-4">Sent at {formatTime(alert.timestamp)}</p>
+        {alert.reason && <p className="text-lg text-red-200 mb-4">"{alert.reason}"</p>}
+        {location && (
+          <a
+            href={formatMapsLink(location)}
+            target="_blank"
+            rel="noreferrer"
+            className="block mb-6 text-teal-400 underline text-lg"
+          >
+            View live location
+          </a>
+        )}
+        <div className="flex gap-4 justify-center">
+          <button
+            onClick={onDismiss}
+            className="p-4 bg-slate-600 rounded-full hover:bg-slate-500 transition"
+            title="Dismiss"
+          >
+            <PhoneOff className="w-6 h-6" />
+          </button>
+          <button
+            onClick={onCallBack}
+            className="p-4 bg-green-600 rounded-full hover:bg-green-700 transition"
+            title="Call Back"
+          >
+            <Phone className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
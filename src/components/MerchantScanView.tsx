@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Check, ScanLine, Store, X } from 'lucide-react';
+import { Voucher, parseVoucherCode, voucherState } from '../services/rewards';
+import { QrScanner, isQrScanningSupported, startQrScanner } from '../utils/qrScanner';
+
+interface MerchantScanViewProps {
+  onLookup: (code: string) => Promise<Voucher | null>;
+  onRedeem: (code: string) => Promise<Voucher>;
+  onClose: () => void;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const MerchantScanView: React.FC<MerchantScanViewProps> = ({ onLookup, onRedeem, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [typedCode, setTypedCode] = useState('');
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [redeemed, setRedeemed] = useState<Voucher | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(
+    isQrScanningSupported() ? null : 'This browser cannot scan QR codes. Type the voucher code instead.'
+  );
+
+  // Scan until a voucher code is found; "Scan next" clears the code and starts again
+  useEffect(() => {
+    if (code || !videoRef.current || !canvasRef.current || !isQrScanningSupported()) return;
+
+    let scanner: QrScanner | null = null;
+    let cancelled = false;
+    startQrScanner(videoRef.current, canvasRef.current, (value) => {
+      const scanned = parseVoucherCode(value);
+      if (!scanned) return false;
+      setCode(scanned);
+      return true;
+    })
+      .then(started => {
+        if (cancelled) started.stop();
+        else scanner = started;
+      })
+      .catch(err => {
+        console.error('[MERCHANT] Camera access failed:', err);
+        setCameraError('Could not open the camera. Type the voucher code instead.');
+      });
+
+    return () => {
+      cancelled = true;
+      scanner?.stop();
+    };
+  }, [code]);
+
+  useEffect(() => {
+    if (!code) return;
+
+    let cancelled = false;
+    setBusy(true);
+    setError(null);
+    onLookup(code)
+      .then(found => {
+        if (cancelled) return;
+        setVoucher(found);
+        if (!found) setError(`No voucher with code ${code}. Check the code again.`);
+      })
+      .catch(err => {
+        console.error('[MERCHANT] Voucher lookup failed:', err);
+        if (!cancelled) setError('Could not check the voucher. Is the internet on?');
+      })
+      .finally(() => {
+        if (!cancelled) setBusy(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [code, onLookup]);
+
+  const submitTypedCode = () => {
+    const parsed = parseVoucherCode(typedCode);
+    if (!parsed) {
+      setError('Voucher codes are 8 letters and numbers');
+      return;
+    }
+    setTypedCode('');
+    setCode(parsed);
+  };
+
+  const redeem = async () => {
+    if (!code) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setRedeemed(await onRedeem(code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not redeem, please try again');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const scanNext = () => {
+    setCode(null);
+    setVoucher(null);
+    setRedeemed(null);
+    setError(null);
+  };
+
+  const state = voucher ? voucherState(voucher) : null;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <Store className="w-5 h-5" />
+              Redeem Voucher
+            </h2>
+            <p className="text-xs text-gray-400">For partner stalls and shops</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {!code && (
+          <>
+            {cameraError ? (
+              <p className="text-orange-200 bg-orange-900/40 rounded-xl p-4 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                {cameraError}
+              </p>
+            ) : (
+              <div className="relative bg-black rounded-2xl overflow-hidden aspect-square flex items-center justify-center">
+                <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                <div className="absolute inset-8 border-4 border-teal-400 rounded-2xl pointer-events-none" />
+                <p className="absolute bottom-3 inset-x-0 text-center text-white text-sm flex items-center justify-center gap-1">
+                  <ScanLine className="w-4 h-4" />
+                  Point at the customer's voucher QR
+                </p>
+              </div>
+            )}
+            <canvas ref={canvasRef} className="hidden" />
+
+            <div className="flex gap-2">
+              <input
+                value={typedCode}
+                onChange={e => setTypedCode(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && submitTypedCode()}
+                placeholder="Or type the code"
+                className="flex-1 bg-slate-800 rounded-xl px-4 py-3 text-lg text-white font-mono uppercase placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none"
+              />
+              <button
+                onClick={submitTypedCode}
+                className="px-5 rounded-xl bg-teal-600 hover:bg-teal-500 transition font-bold"
+              >
+                Check
+              </button>
+            </div>
+          </>
+        )}
+
+        {code && busy && !voucher && <p className="text-teal-400 animate-pulse text-center py-8">Checking voucher...</p>}
+
+        {voucher && !redeemed && (
+          <div className="bg-slate-800 rounded-2xl p-6 border border-slate-700 text-center">
+            <p className="text-2xl font-mono font-bold text-yellow-400 tracking-widest">{voucher.code}</p>
+            <h3 className="text-xl font-bold text-white mt-3">{voucher.rewardName}</h3>
+            <p className="text-gray-300">{voucher.merchant}</p>
+            {state === 'valid' ? (
+              <p className="text-green-400 mt-2">Valid until {formatDateTime(voucher.expiresAt)}</p>
+            ) : state === 'redeemed' ? (
+              <p className="text-red-300 mt-2">
+                Already used{voucher.redeemedAt ? ` on ${formatDateTime(voucher.redeemedAt)}` : ''}
+              </p>
+            ) : (
+              <p className="text-red-300 mt-2">Expired on {formatDateTime(voucher.expiresAt)}</p>
+            )}
+            {state === 'valid' && (
+              <button
+                onClick={redeem}
+                disabled={busy}
+                className="w-full mt-4 py-4 rounded-xl bg-green-600 hover:bg-green-500 disabled:opacity-50 transition text-lg font-bold"
+              >
+                {busy ? 'Redeeming...' : 'Redeem Now'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {redeemed && (
+          <div className="bg-green-900/40 border-2 border-green-500 rounded-2xl p-6 text-center">
+            <div className="w-16 h-16 bg-green-600 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Check className="w-10 h-10 text-white" />
+            </div>
+            <h3 className="text-xl font-bold text-white">Redeemed!</h3>
+            <p className="text-gray-200 mt-1">Give the customer: {redeemed.rewardName}</p>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-red-300 bg-red-900/40 rounded-xl p-4 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {code && !busy && (
+          <button
+            onClick={scanNext}
+            className="w-full py-4 rounded-xl bg-slate-800 hover:bg-slate-700 transition text-lg font-bold flex items-center justify-center gap-2"
+          >
+            <ScanLine className="w-5 h-5" />
+            Scan Next Voucher
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
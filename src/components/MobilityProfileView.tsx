@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Accessibility, Armchair, Check, X } from 'lucide-react';
+import {
+  MOBILITY_AID_LABELS, MobilityAid, MobilityProfile, REST_INTERVAL_OPTIONS
+} from '../services/mobility';
+
+interface MobilityProfileViewProps {
+  profile: MobilityProfile;
+  onSave: (profile: Omit<MobilityProfile, 'updatedAt'>) => Promise<void>;
+  onClose: () => void;
+}
+
+const AIDS = Object.keys(MOBILITY_AID_LABELS) as MobilityAid[];
+
+export const MobilityProfileView: React.FC<MobilityProfileViewProps> = ({ profile, onSave, onClose }) => {
+  const [aid, setAid] = useState(profile.aid);
+  const [needsRestStops, setNeedsRestStops] = useState(profile.needsRestStops);
+  const [restIntervalM, setRestIntervalM] = useState(profile.restIntervalM);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // The saved profile arrives from Firebase after the view opens
+  useEffect(() => {
+    setAid(profile.aid);
+    setNeedsRestStops(profile.needsRestStops);
+    setRestIntervalM(profile.restIntervalM);
+  }, [profile]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({ aid, needsRestStops, restIntervalM });
+      setSaved(true);
+    } catch (error) {
+      console.error('[MOBILITY] Failed to save profile:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <Accessibility className="w-5 h-5" />
+              Getting Around
+            </h2>
+            <p className="text-xs text-gray-400">Ketua plans routes to suit you</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <section className="space-y-2">
+          <p className="text-lg font-bold text-white">How do you get around?</p>
+          {AIDS.map(option => (
+            <button
+              key={option}
+              onClick={() => { setAid(option); setSaved(false); }}
+              className={`w-full text-left px-4 py-4 rounded-xl text-lg transition flex items-center justify-between ${
+                aid === option ? 'bg-teal-700 text-white' : 'bg-slate-800 text-gray-200 hover:bg-slate-700'
+              }`}
+            >
+              {MOBILITY_AID_LABELS[option]}
+              {aid === option && <Check className="w-5 h-5" />}
+            </button>
+          ))}
+          {aid !== 'none' && (
+            <p className="text-sm text-gray-400">Ketua will avoid stairs and overhead bridges where it can, and tell you where got lift.</p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <button
+            onClick={() => { setNeedsRestStops(!needsRestStops); setSaved(false); }}
+            className={`w-full text-left px-4 py-4 rounded-xl text-lg transition flex items-center gap-3 ${
+              needsRestStops ? 'bg-teal-700 text-white' : 'bg-slate-800 text-gray-200 hover:bg-slate-700'
+            }`}
+          >
+            <Armchair className="w-6 h-6" />
+            <span className="flex-1">I need to sit down along the way</span>
+            {needsRestStops && <Check className="w-5 h-5" />}
+          </button>
+          {needsRestStops && (
+            <div>
+              <p className="text-sm text-gray-400 mb-2">Rest every</p>
+              <div className="flex gap-2">
+                {REST_INTERVAL_OPTIONS.map(metres => (
+                  <button
+                    key={metres}
+                    onClick={() => { setRestIntervalM(metres); setSaved(false); }}
+                    className={`flex-1 py-3 rounded-xl font-bold transition ${
+                      restIntervalM === metres ? 'bg-teal-600 text-white' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+                    }`}
+                  >
+                    {metres} m
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+
+      <div className="p-4 border-t border-slate-800">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="w-full py-4 rounded-xl bg-teal-600 hover:bg-teal-500 disabled:opacity-50 transition text-lg font-bold flex items-center justify-center gap-2"
+        >
+          {saved ? <><Check className="w-5 h-5" /> Saved</> : saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Award, Calendar, Camera, Flag, Gift, MapPin, Shield, Ticket, Trophy } from 'lucide-react';
+import { POINT_RULES, PointSource, PointTransaction, ledgerBalance } from '../services/pointsLedger';
+import { startOfDay } from '../services/moodHistory';
+
+interface PointsLedgerCardProps {
+  ledger: PointTransaction[];
+  onOpenRewards?: () => void;
+}
+
+const SOURCE_ICONS: Record<PointSource, React.FC<{ className?: string }>> = {
+  welcome: Gift,
+  checkpoint: MapPin,
+  quest_complete: Flag,
+  event_join: Calendar,
+  event_check_in: Camera,
+  waypoint_check_in: Camera,
+  quest_check_in: Camera,
+  scam_report: Shield,
+  redemption: Ticket
+};
+
+// Enough to see what happened today without scrolling past the events
+const COLLAPSED_COUNT = 5;
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const PointsLedgerCard: React.FC<PointsLedgerCardProps> = ({ ledger, onOpenRewards }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const newestFirst = [...ledger].sort((a, b) => b.timestamp - a.timestamp);
+  const shown = expanded ? newestFirst : newestFirst.slice(0, COLLAPSED_COUNT);
+  const today = startOfDay(Date.now());
+  const earnedToday = ledger
+    .filter(transaction => transaction.timestamp >= today && transaction.amount > 0)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-6 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xl font-bold text-white flex items-center gap-2">
+          <Trophy className="w-6 h-6 text-yellow-400" />
+          Points History
+        </h4>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-yellow-400">{ledgerBalance(ledger)} KP</p>
+          <p className="text-xs text-gray-400">+{earnedToday} today</p>
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-gray-400 text-center py-4">No points yet. Join an event or start a quest!</p>
+      ) : (
+        <div className="space-y-2">
+          {shown.map(transaction => {
+            const Icon = SOURCE_ICONS[transaction.source] || Award;
+            return (
+              <div key={transaction.id} className="flex items-center gap-3 bg-slate-700/50 rounded-xl p-3">
+                <Icon className="w-5 h-5 text-teal-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium truncate">
+                    {POINT_RULES[transaction.source]?.label || transaction.source}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {transaction.description} • {formatWhen(transaction.timestamp)}
+                  </p>
+                </div>
+                <span className={`font-bold ${transaction.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {transaction.amount >= 0 ? '+' : ''}{transaction.amount}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {newestFirst.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="w-full mt-3 py-2 text-teal-400 text-sm font-bold hover:underline"
+        >
+          {expanded ? 'Show less' : `Show all ${newestFirst.length}`}
+        </button>
+      )}
+
+      {onOpenRewards && (
+        <button
+          onClick={onOpenRewards}
+          className="w-full mt-3 py-3 bg-yellow-500 text-slate-900 text-lg font-bold rounded-xl hover:bg-yellow-400 transition flex items-center justify-center gap-2"
+        >
+          <Gift className="w-5 h-5" />
+          Spend on Rewards
+        </button>
+      )}
+
+      <p className="text-xs text-gray-500 mt-3">
+        Each event, checkpoint and photo earns points once, with a daily limit for each kind.
+      </p>
+    </div>
+  );
+};
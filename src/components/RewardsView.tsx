@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Coffee, Gift, GraduationCap, ShoppingCart, Ticket, Trophy, X } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  REWARD_CATEGORY_LABELS, Reward, RewardCategory, Voucher, VoucherState,
+  rewardAvailableUntil, voucherQrValue, voucherState
+} from '../services/rewards';
+
+interface RewardsViewProps {
+  rewards: Reward[];
+  stock: Record<string, number>;
+  vouchers: Voucher[];
+  balance: number;
+  onRedeem: (reward: Reward) => Promise<Voucher>;
+  onClose: () => void;
+}
+
+const CATEGORY_ICONS: Record<RewardCategory, React.FC<{ className?: string }>> = {
+  kopi: Coffee,
+  groceries: ShoppingCart,
+  classes: GraduationCap
+};
+
+const VOUCHER_STATE_STYLES: Record<VoucherState, { label: string; className: string }> = {
+  valid: { label: 'Ready to use', className: 'bg-green-600' },
+  redeemed: { label: 'Used', className: 'bg-slate-600' },
+  expired: { label: 'Expired', className: 'bg-red-700' }
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const RewardsView: React.FC<RewardsViewProps> = ({ rewards, stock, vouchers, balance, onRedeem, onClose }) => {
+  const [tab, setTab] = useState<'catalogue' | 'vouchers'>('catalogue');
+  const [confirming, setConfirming] = useState<Reward | null>(null);
+  const [redeeming, setRedeeming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shownVoucher, setShownVoucher] = useState<Voucher | null>(null);
+
+  const now = Date.now();
+  const validVouchers = vouchers.filter(voucher => voucherState(voucher, now) === 'valid').length;
+
+  const redeem = async (reward: Reward) => {
+    setRedeeming(true);
+    setError(null);
+    try {
+      const voucher = await onRedeem(reward);
+      setConfirming(null);
+      setTab('vouchers');
+      setShownVoucher(voucher);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not redeem, please try again');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <Gift className="w-5 h-5" />
+              Rewards
+            </h2>
+            <p className="text-xs text-gray-400">Spend your points at kampung shops</p>
+          </div>
+        </div>
+        <p className="text-lg font-bold text-yellow-400 flex items-center gap-1">
+          <Trophy className="w-5 h-5" />
+          {balance} KP
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-slate-800">
+        {(['catalogue', 'vouchers'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setTab(option)}
+            className={`flex-1 py-4 text-lg font-bold transition ${
+              tab === option ? 'text-teal-400 border-b-4 border-teal-400 bg-teal-900/20' : 'text-gray-400'
+            }`}
+          >
+            {option === 'catalogue' ? 'Catalogue' : `My Vouchers${validVouchers > 0 ? ` (${validVouchers})` : ''}`}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {tab === 'catalogue' && rewards.map(reward => {
+          const Icon = CATEGORY_ICONS[reward.category];
+          const left = stock[reward.id] ?? reward.initialStock;
+          const ended = now > rewardAvailableUntil(reward);
+          const affordable = balance >= reward.priceKP;
+          return (
+            <div key={reward.id} className="bg-slate-800 rounded-2xl p-5 border border-slate-700">
+              <div className="flex items-start gap-3">
+                <div className="p-3 bg-teal-900/50 rounded-xl">
+                  <Icon className="w-6 h-6 text-teal-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-400">{REWARD_CATEGORY_LABELS[reward.category]}</p>
+                  <h3 className="text-lg font-bold text-white">{reward.name}</h3>
+                  <p className="text-sm text-gray-300">{reward.merchant}</p>
+                  <p className="text-sm text-gray-400 mt-1">{reward.description}</p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {left > 0 ? `${left} left` : 'Sold out'} • Until {formatDate(rewardAvailableUntil(reward))}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => { setError(null); setConfirming(reward); }}
+                disabled={!affordable || left <= 0 || ended}
+                className="w-full mt-4 py-3 rounded-xl bg-yellow-500 text-slate-900 text-lg font-bold hover:bg-yellow-400 disabled:bg-slate-700 disabled:text-gray-400 transition"
+              >
+                {ended ? 'Ended' : left <= 0 ? 'Sold Out' : affordable ? `Redeem for ${reward.priceKP} KP` : `Need ${reward.priceKP} KP`}
+              </button>
+            </div>
+          );
+        })}
+
+        {tab === 'vouchers' && (vouchers.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            <Ticket className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No vouchers yet. Redeem one from the catalogue!</p>
+          </div>
+        ) : vouchers.map(voucher => {
+          const state = voucherState(voucher, now);
+          return (
+            <button
+              key={voucher.code}
+              onClick={() => setShownVoucher(voucher)}
+              className="w-full text-left bg-slate-800 rounded-2xl p-4 hover:bg-slate-700 transition flex items-center gap-3"
+            >
+              <Ticket className="w-6 h-6 text-yellow-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-white truncate">{voucher.rewardName}</p>
+                <p className="text-xs text-gray-400 truncate">{voucher.merchant}</p>
+                <p className="text-xs text-gray-500">
+                  {state === 'redeemed' && voucher.redeemedAt
+                    ? `Used ${formatDate(voucher.redeemedAt)}`
+                    : `Valid until ${formatDate(voucher.expiresAt)}`}
+                </p>
+              </div>
+              <span className={`px-3 py-1 rounded-full text-xs font-bold text-white ${VOUCHER_STATE_STYLES[state].className}`}>
+                {VOUCHER_STATE_STYLES[state].label}
+              </span>
+            </button>
+          );
+        }))}
+      </div>
+
+      {/* Confirm redemption */}
+      {confirming && (
+        <div className="absolute inset-0 bg-black/80 backdrop-blur flex items-center justify-center p-4">
+          <div className="bg-slate-800 rounded-2xl p-6 max-w-sm w-full text-center">
+            <Gift className="w-12 h-12 text-yellow-400 mx-auto mb-3" />
+            <h4 className="text-xl font-bold text-white mb-2">{confirming.name}</h4>
+            <p className="text-gray-300 mb-1">{confirming.merchant}</p>
+            <p className="text-gray-400 mb-4">
+              Uses {confirming.priceKP} KP. You will have {balance - confirming.priceKP} KP left.
+            </p>
+            {error && (
+              <p className="text-red-300 bg-red-900/40 rounded-xl p-3 mb-4 flex items-center gap-2 text-left">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                {error}
+              </p>
+            )}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setConfirming(null)}
+                disabled={redeeming}
+                className="flex-1 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 transition font-bold"
+              >
+                Not now
+              </button>
+              <button
+                onClick={() => redeem(confirming)}
+                disabled={redeeming}
+                className="flex-1 py-3 rounded-xl bg-yellow-500 text-slate-900 hover:bg-yellow-400 disabled:opacity-50 transition font-bold"
+              >
+                {redeeming ? 'Redeeming...' : 'Redeem'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Voucher QR */}
+      {shownVoucher && (
+        <div className="absolute inset-0 bg-black/80 backdrop-blur flex items-center justify-center p-4">
+          <div className="bg-slate-800 rounded-2xl p-6 max-w-sm w-full text-center">
+            <h4 className="text-xl font-bold text-white mb-1">{shownVoucher.rewardName}</h4>
+            <p className="text-gray-400 mb-4">{shownVoucher.merchant}</p>
+            {voucherState(shownVoucher, now) === 'valid' ? (
+              <>
+                <div className="bg-white p-4 rounded-xl inline-block mb-3">
+                  <QRCodeSVG value={voucherQrValue(shownVoucher)} size={200} level="H" />
+                </div>
+                <p className="text-2xl font-mono font-bold text-yellow-400 tracking-widest mb-1">{shownVoucher.code}</p>
+                <p className="text-sm text-gray-400 mb-4">
+                  Show this to the stall. Valid until {formatDate(shownVoucher.expiresAt)}.
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-300 mb-4">
+                {VOUCHER_STATE_STYLES[voucherState(shownVoucher, now)].label}: this voucher can no longer be used.
+              </p>
+            )}
+            <button
+              onClick={() => setShownVoucher(null)}
+              className="w-full py-3 rounded-xl bg-teal-600 hover:bg-teal-500 transition text-lg font-bold"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
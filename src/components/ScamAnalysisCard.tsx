@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertTriangle, Check, Phone, ShieldAlert, X } from 'lucide-react';
+import { ScamAnalysis, ScamVerdict } from '../services/scamAnalysis';
+
+interface ScamAnalysisCardProps {
+  analysis: ScamAnalysis;
+  onReportNumber?: (phoneNumber: string) => void;
+  onDismiss?: () => void;
+}
+
+const VERDICT_STYLES: Record<ScamVerdict, { label: string; card: string; text: string }> = {
+  scam: { label: 'SCAM', card: 'bg-red-900/60 border-red-500', text: 'text-red-300' },
+  suspicious: { label: 'SUSPICIOUS', card: 'bg-orange-900/60 border-orange-500', text: 'text-orange-300' },
+  safe: { label: 'LOOKS SAFE', card: 'bg-green-900/60 border-green-500', text: 'text-green-300' }
+};
+
+export const ScamAnalysisCard: React.FC<ScamAnalysisCardProps> = ({ analysis, onReportNumber, onDismiss }) => {
+  const style = VERDICT_STYLES[analysis.verdict];
+
+  return (
+    <div className={`rounded-2xl p-5 border-2 ${style.card}`}>
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <p className={`text-2xl font-black flex items-center gap-2 ${style.text}`}>
+            {analysis.verdict === 'safe' ? <Check className="w-6 h-6" /> : <ShieldAlert className="w-6 h-6" />}
+            {style.label}
+          </p>
+          <p className="text-xs text-gray-400">
+            {analysis.confidence}% sure • from {analysis.source === 'image' ? 'camera' : 'pasted text'}
+          </p>
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <p className="text-lg text-white mb-3">{analysis.singlishExplanation}</p>
+
+      {analysis.impersonatedEntity && (
+        <p className="text-sm text-gray-200 mb-2">
+          <span className="font-bold">Pretending to be:</span> {analysis.impersonatedEntity}
+        </p>
+      )}
+
+      {analysis.redFlags.length > 0 && (
+        <div className="mb-2">
+          <p className="text-sm font-bold text-gray-200">Red flags</p>
+          <ul className="text-sm text-gray-300 list-disc list-inside">
+            {analysis.redFlags.map(flag => <li key={flag}>{flag}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {analysis.urgencyTactics.length > 0 && (
+        <div className="mb-2">
+          <p className="text-sm font-bold text-gray-200">Pressure tactics</p>
+          <ul className="text-sm text-gray-300 list-disc list-inside">
+            {analysis.urgencyTactics.map(tactic => <li key={tactic}>{tactic}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-slate-900/60 rounded-xl p-3 mt-3">
+        <p className="text-sm font-bold text-white flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-yellow-400" />
+          What to do
+        </p>
+        <p className="text-sm text-gray-200 mt-1">{analysis.recommendedAction}</p>
+      </div>
+
+      {onReportNumber && analysis.verdict !== 'safe' && analysis.phoneNumbers.map(number => (
+        <button
+          key={number}
+          onClick={() => onReportNumber(number)}
+          className="mt-3 w-full py-3 rounded-xl bg-slate-800 hover:bg-slate-700 transition font-bold text-orange-300 flex items-center justify-center gap-2"
+        >
+          <Phone className="w-4 h-4" />
+          Report {number}
+        </button>
+      ))}
+    </div>
+  );
+};
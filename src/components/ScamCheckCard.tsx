@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { ScamCheckResult } from '../services/scamLookup';
+
+interface ScamCheckCardProps {
+  result: ScamCheckResult;
+  onReport?: () => void;
+}
+
+const RISK_STYLES: Record<ScamCheckResult['riskLevel'], string> = {
+  low: 'bg-green-900/40 border-green-500',
+  medium: 'bg-orange-900/40 border-orange-500',
+  high: 'bg-red-900/40 border-red-500'
+};
+
+export const ScamCheckCard: React.FC<ScamCheckCardProps> = ({ result, onReport }) => (
+  <div className={`rounded-2xl p-5 border-2 ${RISK_STYLES[result.riskLevel]}`}>
+    <div className="flex items-center justify-between mb-2">
+      <p className="font-bold text-white text-lg flex items-center gap-2">
+        {result.isSuspicious ? <AlertTriangle className="w-5 h-5 text-red-400" /> : <Check className="w-5 h-5 text-green-400" />}
+        {result.normalised || result.phoneNumber}
+      </p>
+      <span className="text-sm font-bold text-white">Risk {result.riskScore}/100</span>
+    </div>
+    <p className="text-white mb-3">{result.message}</p>
+    {result.reasons.length > 0 && (
+      <ul className="space-y-1 text-sm text-gray-300 list-disc list-inside">
+        {result.reasons.map(reason => <li key={reason}>{reason}</li>)}
+      </ul>
+    )}
+    {onReport && (
+      <button
+        onClick={onReport}
+        className="mt-4 w-full py-3 rounded-xl bg-slate-800 hover:bg-slate-700 transition font-bold text-orange-300"
+      >
+        This number scammed me - report it
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Camera, Check, MessageSquare, Phone, Search, Shield, Users, X } from 'lucide-react';
+import { ScamCategory, ScamCheckResult, SCAM_CATEGORY_LABELS } from '../services/scamLookup';
+import { BlocklistEntry, ScamChannel, COMMUNITY_REPORT_THRESHOLD } from '../services/scamReports';
+import { ScamAnalysis } from '../services/scamAnalysis';
+import { ScamAnalysisCard } from './ScamAnalysisCard';
+import { ScamCheckCard } from './ScamCheckCard';
+
+export interface ScamReportDraft {
+  rawNumber: string;
+  description: string;
+  channel: ScamChannel;
+  category: ScamCategory;
+}
+
+interface ScamShieldViewProps {
+  blocklist: BlocklistEntry[];
+  onCheck: (phoneNumber: string) => Promise<ScamCheckResult>;
+  onReport: (draft: ScamReportDraft) => Promise<void>;
+  onAnalyseText: (text: string) => Promise<ScamAnalysis>;
+  onAnalyseCamera: () => Promise<ScamAnalysis>;
+  cameraReady: boolean;
+  onClose: () => void;
+}
+
+const CHANNEL_LABELS: Record<ScamChannel, string> = {
+  call: 'Phone call',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+  other: 'Other'
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+export const ScamShieldView: React.FC<ScamShieldViewProps> = ({
+  blocklist, onCheck, onReport, onAnalyseText, onAnalyseCamera, cameraReady, onClose
+}) => {
+  const [tab, setTab] = useState<'check' | 'analyse' | 'report' | 'blocklist'>('check');
+  const [checkNumber, setCheckNumber] = useState('');
+  const [checkResult, setCheckResult] = useState<ScamCheckResult | null>(null);
+  const [draft, setDraft] = useState<ScamReportDraft>({ rawNumber: '', description: '', channel: 'call', category: 'other' });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reported, setReported] = useState(false);
+  const [messageText, setMessageText] = useState('');
+  const [analysis, setAnalysis] = useState<ScamAnalysis | null>(null);
+
+  const runCheck = async () => {
+    if (!checkNumber.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setCheckResult(await onCheck(checkNumber));
+    } catch (err) {
+      console.error('[SCAM SHIELD] Check failed:', err);
+      setError('Cannot check this number right now. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitReport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onReport(draft);
+      setReported(true);
+      setDraft({ rawNumber: '', description: '', channel: 'call', category: 'other' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send your report');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runAnalysis = async (analyse: () => Promise<ScamAnalysis>) => {
+    setBusy(true);
+    setError(null);
+    setAnalysis(null);
+    try {
+      setAnalysis(await analyse());
+    } catch (err) {
+      console.error('[SCAM SHIELD] Analysis failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not analyse this message');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Jump from a check or analysis result straight into a prefilled report
+  const startReport = (rawNumber: string, prefill: Partial<ScamReportDraft> = {}) => {
+    setDraft(prev => ({ ...prev, ...prefill, rawNumber }));
+    setReported(false);
+    setTab('report');
+  };
+
+  const reportCheckedNumber = () =>
+    startReport(checkNumber, checkResult?.category ? { category: checkResult.category } : {});
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-3 text-sm font-medium transition ${active ? 'text-teal-400 border-b-2 border-teal-400' : 'text-gray-400'}`;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <Shield className="w-5 h-5" />
+              Scam Shield
+            </h2>
+            <p className="text-xs text-gray-400">Check and report suspicious numbers</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-slate-800">
+        <button onClick={() => setTab('check')} className={tabClass(tab === 'check')}>Check</button>
+        <button onClick={() => setTab('analyse')} className={tabClass(tab === 'analyse')}>Message</button>
+        <button onClick={() => { setTab('report'); setReported(false); }} className={tabClass(tab === 'report')}>Report</button>
+        <button onClick={() => setTab('blocklist')} className={tabClass(tab === 'blocklist')}>Blocklist ({blocklist.length})</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {error && (
+          <div className="bg-red-900/40 border border-red-500 rounded-xl p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        {tab === 'check' && (
+          <>
+            <div className="flex gap-2">
+              <input
+                type="tel"
+                value={checkNumber}
+                onChange={e => setCheckNumber(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && runCheck()}
+                placeholder="e.g. 9123 4567 or 012-345 6789"
+                className="flex-1 bg-slate-800 rounded-xl px-4 py-3 text-lg text-white placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none"
+              />
+              <button
+                onClick={runCheck}
+                disabled={busy || !checkNumber.trim()}
+                className="px-5 rounded-xl bg-teal-600 hover:bg-teal-500 disabled:opacity-50 transition font-bold flex items-center gap-2"
+              >
+                <Search className="w-5 h-5" />
+                Check
+              </button>
+            </div>
+
+            {checkResult && (
+              <ScamCheckCard result={checkResult} onReport={reportCheckedNumber} />
+            )}
+          </>
+        )}
+
+        {tab === 'analyse' && (
+          <>
+            <label className="block">
+              <span className="text-sm text-gray-400">Paste the WhatsApp or SMS message</span>
+              <textarea
+                value={messageText}
+                onChange={e => setMessageText(e.target.value)}
+                rows={5}
+                placeholder="e.g. Your parcel cannot be delivered. Click this link to pay $1.99..."
+                className="mt-1 w-full bg-slate-800 rounded-xl px-4 py-3 text-white placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none resize-none"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => runAnalysis(() => onAnalyseText(messageText))}
+                disabled={busy || !messageText.trim()}
+                className="py-3 rounded-xl bg-teal-600 hover:bg-teal-500 disabled:opacity-50 transition font-bold flex items-center justify-center gap-2"
+              >
+                <MessageSquare className="w-5 h-5" />
+                Check Message
+              </button>
+              <button
+                onClick={() => runAnalysis(onAnalyseCamera)}
+                disabled={busy || !cameraReady}
+                className="py-3 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-50 transition font-bold flex items-center justify-center gap-2"
+              >
+                <Camera className="w-5 h-5" />
+                Use Camera
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {cameraReady
+                ? 'Hold your phone screen up to the camera, then tap Use Camera.'
+                : 'To scan a screen, connect to Ketua and turn on the camera first.'}
+            </p>
+
+            {busy && <p className="text-center text-teal-400 animate-pulse">Checking...</p>}
+
+            {analysis && (
+              <ScamAnalysisCard
+                analysis={analysis}
+                onReportNumber={number => startReport(number, { description: analysis.summary, channel: 'whatsapp' })}
+              />
+            )}
+          </>
+        )}
+
+        {tab === 'report' && (
+          reported ? (
+            <div className="text-center py-12">
+              <Check className="w-16 h-16 mx-auto mb-4 text-green-400" />
+              <p className="text-xl font-bold text-white mb-2">Thank you!</p>
+              <p className="text-gray-400">
+                Once {COMMUNITY_REPORT_THRESHOLD} neighbours report the same number, it joins the kampung blocklist.
+              </p>
+              <button
+                onClick={() => setReported(false)}
+                className="mt-6 px-6 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 transition font-bold"
+              >
+                Report another number
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <label className="block">
+                <span className="text-sm text-gray-400">Phone number</span>
+                <input
+                  type="tel"
+                  value={draft.rawNumber}
+                  onChange={e => setDraft(prev => ({ ...prev, rawNumber: e.target.value }))}
+                  placeholder="The number that contacted you"
+                  className="mt-1 w-full bg-slate-800 rounded-xl px-4 py-3 text-lg text-white placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none"
+                />
+              </label>
+
+              <div>
+                <span className="text-sm text-gray-400">How did they contact you?</span>
+                <div className="mt-1 grid grid-cols-2 gap-2">
+                  {(Object.keys(CHANNEL_LABELS) as ScamChannel[]).map(channel => (
+                    <button
+                      key={channel}
+                      onClick={() => setDraft(prev => ({ ...prev, channel }))}
+                      className={`py-3 rounded-xl font-medium transition ${draft.channel === channel ? 'bg-teal-600 text-white' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'}`}
+                    >
+                      {CHANNEL_LABELS[channel]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="text-sm text-gray-400">What kind of scam?</span>
+                <select
+                  value={draft.category}
+                  onChange={e => setDraft(prev => ({ ...prev, category: e.target.value as ScamCategory }))}
+                  className="mt-1 w-full bg-slate-800 rounded-xl px-4 py-3 text-white border border-slate-700 focus:border-teal-400 outline-none"
+                >
+                  {(Object.keys(SCAM_CATEGORY_LABELS) as ScamCategory[]).map(category => (
+                    <option key={category} value={category}>{SCAM_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="text-sm text-gray-400">What did they say?</span>
+                <textarea
+                  value={draft.description}
+                  onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  rows={4}
+                  placeholder="e.g. Said they were from the bank and asked for my OTP"
+                  className="mt-1 w-full bg-slate-800 rounded-xl px-4 py-3 text-white placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none resize-none"
+                />
+              </label>
+
+              <button
+                onClick={submitReport}
+                disabled={busy || !draft.rawNumber.trim() || !draft.description.trim()}
+                className="w-full py-4 rounded-xl bg-orange-600 hover:bg-orange-500 disabled:opacity-50 transition font-bold text-lg flex items-center justify-center gap-2"
+              >
+                <AlertTriangle className="w-5 h-5" />
+                {busy ? 'Sending...' : 'Report Scam'}
+              </button>
+            </div>
+          )
+        )}
+
+        {tab === 'blocklist' && (
+          blocklist.length === 0 ? (
+            <div className="text-center py-12 text-gray-400">
+              <Users className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p>No numbers confirmed by the kampung yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {blocklist.map(entry => (
+                <div key={entry.number} className="bg-slate-800 rounded-xl p-4">
+                  <div className="flex items-center justify-between">
+                    <p className="font-bold text-white flex items-center gap-2">
+                      <Phone className="w-4 h-4 text-red-400" />
+                      {entry.number}
+                    </p>
+                    <span className="text-xs text-gray-400">{formatDate(entry.lastReported)}</span>
+                  </div>
+                  <p className="text-sm text-orange-300 mt-1">
+                    {SCAM_CATEGORY_LABELS[entry.category]} • {entry.reporters} reports
+                  </p>
+                  <p className="text-sm text-gray-400 mt-1">"{entry.latestDescription}"</p>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Calendar, Check, MapPin, MessageSquare, Navigation, Send, X } from 'lucide-react';
+import { ChatToolResult } from '../services/textChat';
+import { ScamCheckResult } from '../services/scamLookup';
+import { ScamAnalysis } from '../services/scamAnalysis';
+import { ScamCheckCard } from './ScamCheckCard';
+import { ScamAnalysisCard } from './ScamAnalysisCard';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'ketua';
+  text: string;
+  timestamp: number;
+  toolResults?: ChatToolResult[];
+  failed?: boolean;
+}
+
+interface TextChatViewProps {
+  messages: ChatMessage[];
+  busy: boolean;
+  onSend: (text: string) => void;
+  onJoinEvent: (eventId: string) => void;
+  onOpenQuest: () => void;
+  onClose: () => void;
+}
+
+// Just the fields the cards read; the tool results carry the full app objects
+interface EventSummary {
+  id: string;
+  name: string;
+  description: string;
+  time: string;
+  date: string;
+  reward: string;
+}
+
+interface CandidateSummary {
+  option: number;
+  placeId: string;
+  name: string;
+  address: string;
+  distanceKm: number;
+}
+
+// Returned by every tool when it fails, and by the ones that only report what they did
+interface StatusResult {
+  success?: boolean;
+  message?: string;
+}
+
+interface QuestResult extends StatusResult {
+  candidates?: CandidateSummary[];
+  questDetails?: {
+    destination: string;
+    distance: number;
+    duration: number;
+    reward: string;
+    firstStep?: string;
+  };
+  destination?: string;
+  progress?: number;
+  currentNavigationStep?: string;
+  currentStep?: string;
+}
+
+type ScamAnalysisResult = Omit<ScamAnalysis, 'source' | 'analysedAt'>;
+
+// What each tool with a card returns
+interface ToolResults {
+  searchNearbyEvents: { events?: EventSummary[] };
+  checkSuspiciousNumber: ScamCheckResult | StatusResult;
+  analyseScamMessage: ScamAnalysisResult | StatusResult;
+  createQuestToDestination: QuestResult;
+  confirmQuestDestination: QuestResult;
+  getActiveQuestStatus: QuestResult;
+  getNextNavigationStep: QuestResult;
+  reportScamNumber: StatusResult;
+  triggerDistressAlert: StatusResult;
+  cancelDistressAlert: StatusResult;
+}
+
+type CardToolResult = { [Name in keyof ToolResults]: { name: Name; result: ToolResults[Name] } }[keyof ToolResults];
+
+const QUICK_PROMPTS = [
+  'Got what events nearby?',
+  'Is 9123 4567 a scam number?',
+  'Bring me to the nearest clinic'
+];
+
+const ToolResultCard: React.FC<{
+  toolResult: ChatToolResult;
+  onJoinEvent: (eventId: string) => void;
+  onOpenQuest: () => void;
+}> = ({ toolResult, onJoinEvent, onOpenQuest }) => {
+  // Names without a card fall through to the default case
+  const card = toolResult as CardToolResult;
+
+  switch (card.name) {
+    case 'searchNearbyEvents':
+      return (
+        <div className="space-y-2">
+          {(card.result.events || []).map(event => (
+            <div key={event.id} className="bg-slate-800 rounded-xl p-3 border border-slate-700">
+              <p className="font-bold text-white">{event.name}</p>
+              <p className="text-xs text-gray-400 flex items-center gap-1 mt-1">
+                <Calendar className="w-3 h-3" />
+                {event.date} • {event.time} • {event.reward}
+              </p>
+              <p className="text-sm text-gray-300 mt-1">{event.description}</p>
+              <button
+                onClick={() => onJoinEvent(event.id)}
+                className="mt-2 px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-500 transition text-sm font-bold"
+              >
+                Join
+              </button>
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'checkSuspiciousNumber':
+      return 'riskLevel' in card.result ? <ScamCheckCard result={card.result} /> : null;
+
+    case 'analyseScamMessage':
+      return 'verdict' in card.result
+        ? <ScamAnalysisCard analysis={{ source: 'text', analysedAt: Date.now(), ...card.result }} />
+        : null;
+
+    case 'createQuestToDestination':
+      if (card.result.candidates) {
+        return (
+          <div className="bg-slate-800 rounded-xl p-3 border border-slate-700 space-y-2">
+            {card.result.candidates.map(candidate => (
+              <p key={candidate.placeId} className="text-sm text-gray-200 flex items-start gap-2">
+                <span className="font-bold text-teal-400">{candidate.option}.</span>
+                <span>
+                  <span className="font-bold text-white">{candidate.name}</span>
+                  {candidate.address && ` - ${candidate.address}`} ({candidate.distanceKm} km)
+                </span>
+              </p>
+            ))}
+            <button
+              onClick={onOpenQuest}
+              className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-500 transition text-sm font-bold flex items-center gap-2"
+            >
+              <MapPin className="w-4 h-4" />
+              Pick on Map
+            </button>
+          </div>
+        );
+      }
+    // falls through
+    case 'confirmQuestDestination':
+    case 'getActiveQuestStatus':
+    case 'getNextNavigationStep': {
+      const result = card.result;
+      const destination = result.questDetails?.destination || result.destination;
+      if (!destination) return null;
+      const step = result.questDetails?.firstStep || result.currentNavigationStep || result.currentStep;
+      return (
+        <div className="bg-gradient-to-br from-teal-700 to-blue-700 rounded-xl p-4">
+          <p className="font-bold text-white flex items-center gap-2">
+            <MapPin className="w-4 h-4" />
+            {destination}
+          </p>
+          {result.questDetails && (
+            <p className="text-sm text-white/80 mt-1">
+              {result.questDetails.distance} km • about {result.questDetails.duration} min • {result.questDetails.reward}
+            </p>
+          )}
+          {typeof result.progress === 'number' && (
+            <p className="text-sm text-white/80 mt-1">{Math.round(result.progress)}% done</p>
+          )}
+          {step && <p className="text-sm text-white mt-2">Next: {step}</p>}
+          <button
+            onClick={onOpenQuest}
+            className="mt-3 px-4 py-2 rounded-lg bg-white/20 hover:bg-white/30 transition text-sm font-bold flex items-center gap-2"
+          >
+            <Navigation className="w-4 h-4" />
+            Open Map
+          </button>
+        </div>
+      );
+    }
+
+    case 'reportScamNumber':
+    case 'triggerDistressAlert':
+    case 'cancelDistressAlert':
+      return (
+        <div className={`rounded-xl p-3 text-sm flex items-center gap-2 ${card.result.success ? 'bg-slate-800 text-gray-200' : 'bg-red-900/40 text-red-200'}`}>
+          {card.result.success ? <Check className="w-4 h-4 text-green-400" /> : <AlertTriangle className="w-4 h-4" />}
+          {card.result.message}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export const TextChatView: React.FC<TextChatViewProps> = ({
+  messages, busy, onSend, onJoinEvent, onOpenQuest, onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, busy]);
+
+  const send = (text: string) => {
+    if (!text.trim() || busy) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <MessageSquare className="w-5 h-5" />
+              Chat with Ketua
+            </h2>
+            <p className="text-xs text-gray-400">Type instead of talking</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.length === 0 && (
+          <div className="text-center py-8 space-y-3">
+            <MessageSquare className="w-12 h-12 mx-auto text-gray-600" />
+            <p className="text-gray-400">Ask Ketua anything. Try:</p>
+            {QUICK_PROMPTS.map(prompt => (
+              <button
+                key={prompt}
+                onClick={() => send(prompt)}
+                className="block w-full px-4 py-3 rounded-xl bg-slate-800 hover:bg-slate-700 transition text-left text-gray-200"
+              >
+                {prompt}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex flex-col gap-2 ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+            {message.text && (
+              <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-lg ${
+                message.role === 'user'
+                  ? 'bg-teal-700 text-white'
+                  : message.failed ? 'bg-red-900/40 text-red-200' : 'bg-slate-800 text-white'
+              }`}>
+                {message.text}
+              </div>
+            )}
+            {message.toolResults?.map((toolResult, index) => (
+              <div key={index} className="w-full max-w-[95%]">
+                <ToolResultCard toolResult={toolResult} onJoinEvent={onJoinEvent} onOpenQuest={onOpenQuest} />
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {busy && <p className="text-teal-400 animate-pulse">Ketua is typing...</p>}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Input */}
+      <div className="p-4 border-t border-slate-800 flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && send(draft)}
+          placeholder="Type your message..."
+          className="flex-1 bg-slate-800 rounded-xl px-4 py-3 text-lg text-white placeholder-gray-500 border border-slate-700 focus:border-teal-400 outline-none"
+        />
+        <button
+          onClick={() => send(draft)}
+          disabled={busy || !draft.trim()}
+          className="px-5 rounded-xl bg-teal-600 hover:bg-teal-500 disabled:opacity-50 transition"
+        >
+          <Send className="w-6 h-6" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Calendar, Clock, Heart, X } from 'lucide-react';
+import {
+  MoodReading,
+  MOOD_STYLES,
+  MoodKey,
+  buildWeeklyReport,
+  classifyMood,
+  describeStreak,
+  startOfDay,
+  toDateKey
+} from '../services/moodHistory';
+
+interface WellbeingViewProps {
+  readings: MoodReading[];
+  userName: string;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+export const WellbeingView: React.FC<WellbeingViewProps> = ({ readings, userName, onClose }) => {
+  const [range, setRange] = useState<'day' | 'week'>('day');
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(Date.now()));
+
+  const report = useMemo(() => buildWeeklyReport(readings), [readings]);
+
+  const dayReadings = useMemo(() => {
+    const dateKey = toDateKey(selectedDay);
+    return readings.filter(r => toDateKey(r.timestamp) === dateKey);
+  }, [readings, selectedDay]);
+
+  const isToday = selectedDay === startOfDay(Date.now());
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900 flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="p-4 flex justify-between items-center border-b border-slate-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700 transition">
+            <X className="w-6 h-6" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-teal-400 flex items-center gap-2">
+              <Heart className="w-5 h-5" />
+              Wellbeing
+            </h2>
+            <p className="text-xs text-gray-400">How {userName} has been feeling</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-slate-800">
+        <button
+          onClick={() => setRange('day')}
+          className={`flex-1 py-3 text-sm font-medium transition ${range === 'day' ? 'text-teal-400 border-b-2 border-teal-400' : 'text-gray-400'}`}
+        >
+          Day
+        </button>
+        <button
+          onClick={() => setRange('week')}
+          className={`flex-1 py-3 text-sm font-medium transition ${range === 'week' ? 'text-teal-400 border-b-2 border-teal-400' : 'text-gray-400'}`}
+        >
+          Week
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {/* Weekly Summary Card - always visible so caregivers see flags first */}
+        <div className={`rounded-2xl p-5 ${report.concerningDays.length > 0 || report.streaks.length > 0 ? 'bg-orange-900/40 border-2 border-orange-500' : 'bg-gradient-to-br from-teal-600 to-blue-600'}`}>
+          <p className="text-xs uppercase tracking-wider text-white/70 font-semibold mb-1">This week</p>
+          <p className="text-lg font-bold text-white">{report.headline}</p>
+          <p className="text-sm text-white/70 mt-2">{report.totalReadings} mood readings</p>
+        </div>
+
+        {range === 'day' && (
+          <>
+            {/* Day Picker */}
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setSelectedDay(prev => prev - DAY_MS)}
+                disabled={selectedDay <= report.from}
+                className={`px-4 py-2 rounded-xl transition text-sm font-bold ${selectedDay <= report.from ? 'bg-slate-800/50 text-gray-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                ‹ Prev
+              </button>
+              <p className="font-bold text-white flex items-center gap-2">
+                <Calendar className="w-4 h-4 text-teal-400" />
+                {isToday ? 'Today' : formatDay(toDateKey(selectedDay))}
+              </p>
+              <button
+                onClick={() => setSelectedDay(prev => prev + DAY_MS)}
+                disabled={isToday}
+                className={`px-4 py-2 rounded-xl transition text-sm font-bold ${isToday ? 'bg-slate-800/50 text-gray-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                Next ›
+              </button>
+            </div>
+
+            {/* 24h Strip */}
+            <div>
+              <div className="relative h-10 bg-slate-800 rounded-xl overflow-hidden">
+                {dayReadings.map(reading => {
+                  const key = classifyMood(reading.mood);
+                  const offset = ((reading.timestamp - selectedDay) / DAY_MS) * 100;
+                  return (
+                    <div
+                      key={reading.id}
+                      className="absolute top-0 bottom-0 w-1"
+                      style={{ left: `${offset}%`, background: MOOD_STYLES[key].color }}
+                      title={`${formatTime(reading.timestamp)} ${reading.mood}`}
+                    />
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>12am</span>
+                <span>6am</span>
+                <span>12pm</span>
+                <span>6pm</span>
+                <span>12am</span>
+              </div>
+            </div>
+
+            {/* Readings List */}
+            {dayReadings.length === 0 ? (
+              <div className="text-center py-12 text-gray-400">
+                <Heart className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p>No mood readings for this day</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {[...dayReadings].reverse().map(reading => {
+                  const key = classifyMood(reading.mood);
+                  return (
+                    <div key={reading.id} className="flex items-center gap-3 bg-slate-800 rounded-xl p-3">
+                      <span className="text-2xl">{MOOD_STYLES[key].emoji}</span>
+                      <div className="flex-1">
+                        <p className="font-bold text-white">{reading.mood}</p>
+                        <p className="text-xs text-gray-400 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {formatTime(reading.timestamp)} • {reading.confidence}% confident
+                        </p>
+                      </div>
+                      {reading.shouldRespond && (
+                        <AlertTriangle className="w-5 h-5 text-orange-400" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        {range === 'week' && (
+          <>
+            {/* Week Bars */}
+            <div className="grid grid-cols-7 gap-2">
+              {report.days.map(day => (
+                <div key={day.date} className="flex flex-col items-center gap-1">
+                  <div className="w-full h-32 bg-slate-800 rounded-lg overflow-hidden flex flex-col-reverse">
+                    {(Object.keys(day.counts) as MoodKey[]).map(key => (
+                      <div
+                        key={key}
+                        style={{
+                          height: `${((day.counts[key] || 0) / day.readings) * 100}%`,
+                          background: MOOD_STYLES[key].color
+                        }}
+                        title={`${MOOD_STYLES[key].label}: ${day.counts[key]}`}
+                      />
+                    ))}
+                  </div>
+                  <span className="text-lg">{day.dominantMood ? MOOD_STYLES[day.dominantMood].emoji : '·'}</span>
+                  <span className="text-xs text-gray-400">{formatDay(day.date).split(' ')[0]}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-3">
+              {(Object.keys(MOOD_STYLES) as MoodKey[]).map(key => (
+                <span key={key} className="flex items-center gap-1 text-xs text-gray-300">
+                  <span className="w-3 h-3 rounded-full" style={{ background: MOOD_STYLES[key].color }} />
+                  {MOOD_STYLES[key].label}
+                </span>
+              ))}
+            </div>
+
+            {/* Flags */}
+            {(report.concerningDays.length > 0 || report.streaks.length > 0) && (
+              <div className="bg-slate-800 rounded-2xl p-5">
+                <h3 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 text-orange-400" />
+                  Worth checking in
+                </h3>
+                <div className="space-y-2">
+                  {report.concerningDays.map(run => (
+                    <p key={`${run.mood}-${run.dates[0]}`} className="text-gray-200">
+                      {MOOD_STYLES[run.mood].emoji} Mostly {MOOD_STYLES[run.mood].label.toLowerCase()} from {formatDay(run.dates[0])} to {formatDay(run.dates[run.dates.length - 1])}
+                    </p>
+                  ))}
+                  {report.streaks.map(streak => (
+                    <p key={streak.start} className="text-gray-200">
+                      {MOOD_STYLES[streak.mood].emoji} {formatDay(toDateKey(streak.start))}, {formatTime(streak.start)}: {describeStreak(streak)}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
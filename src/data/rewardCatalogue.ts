@@ -0,0 +1,61 @@
+import type { Reward } from '../services/rewards';
+
+// Rewards from our partner merchants. Prices and stock are set with the residents'
+// committee; stock left is tracked in Firebase (rewardStock/{rewardId}).
+export const REWARD_CATALOGUE: Reward[] = [
+  {
+    id: 'kopi-o-ah-seng',
+    name: 'Free Kopi-O',
+    merchant: 'Ah Seng Kopi, Blk 123 Ang Mo Kio Ave 3',
+    description: 'One hot or iced kopi-o, any time the stall is open.',
+    category: 'kopi',
+    priceKP: 80,
+    initialStock: 50,
+    availableUntil: '2027-03-31',
+    voucherValidDays: 14
+  },
+  {
+    id: 'kaya-toast-set',
+    name: 'Kaya Toast Set',
+    merchant: 'Ah Seng Kopi, Blk 123 Ang Mo Kio Ave 3',
+    description: 'Kaya toast, two soft-boiled eggs and a kopi or teh.',
+    category: 'kopi',
+    priceKP: 150,
+    initialStock: 30,
+    availableUntil: '2027-03-31',
+    voucherValidDays: 14
+  },
+  {
+    id: 'ntuc-2-off',
+    name: '$2 off at NTUC FairPrice',
+    merchant: 'NTUC FairPrice, Ang Mo Kio Hub',
+    description: '$2 off with a minimum spend of $20. One voucher per receipt.',
+    category: 'groceries',
+    priceKP: 180,
+    initialStock: 40,
+    availableUntil: '2026-12-31',
+    voucherValidDays: 30
+  },
+  {
+    id: 'ntuc-5-off',
+    name: '$5 off at NTUC FairPrice',
+    merchant: 'NTUC FairPrice, Ang Mo Kio Hub',
+    description: '$5 off with a minimum spend of $40. One voucher per receipt.',
+    category: 'groceries',
+    priceKP: 400,
+    initialStock: 20,
+    availableUntil: '2026-12-31',
+    voucherValidDays: 30
+  },
+  {
+    id: 'cc-class-credit',
+    name: '$10 Community Club Class Credit',
+    merchant: 'Cheng San Community Club',
+    description: 'Use for any class: line dancing, calligraphy, smartphone basics and more.',
+    category: 'classes',
+    priceKP: 500,
+    initialStock: 10,
+    availableUntil: '2027-06-30',
+    voucherValidDays: 60
+  }
+];
@@ -0,0 +1,54 @@
+import type { ScamReputationEntry } from '../services/scamLookup';
+
+// Seed reputation list bundled with the app so lookups work offline.
+// Numbers are stored in E.164 form; see normalisePhoneNumber.
+export const SCAM_REPUTATION_SEED: ScamReputationEntry[] = [
+  {
+    e164: '+6599998888',
+    category: 'impersonation',
+    label: 'Pretends to be from the police or MOH',
+    source: 'official',
+    reports: 42,
+    lastReported: Date.parse('2025-11-02')
+  },
+  {
+    e164: '+60123456789',
+    category: 'investment',
+    label: 'Guaranteed-returns crypto investment',
+    source: 'official',
+    reports: 18,
+    lastReported: Date.parse('2025-10-21')
+  },
+  {
+    e164: '+6599999999',
+    category: 'job',
+    label: 'Work-from-home "like and earn" job offer',
+    source: 'official',
+    reports: 27,
+    lastReported: Date.parse('2025-11-10')
+  },
+  {
+    e164: '+6581234000',
+    category: 'impersonation',
+    label: 'Claims to be from a bank, asks for OTP',
+    source: 'official',
+    reports: 35,
+    lastReported: Date.parse('2025-11-12')
+  },
+  {
+    e164: '+60198765432',
+    category: 'loan',
+    label: 'Unlicensed moneylender',
+    source: 'official',
+    reports: 9,
+    lastReported: Date.parse('2025-09-30')
+  },
+  {
+    e164: '+6531580000',
+    category: 'phishing',
+    label: 'Parcel delivery "failed" SMS with link',
+    source: 'official',
+    reports: 14,
+    lastReported: Date.parse('2025-11-05')
+  }
+];
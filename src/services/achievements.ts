@@ -0,0 +1,206 @@
+import { CommunityEvent, Quest } from '../types';
+import { PointTransaction } from './pointsLedger';
+import { startOfDay, toDateKey } from './moodHistory';
+
+// --- Levels, Badges & Streaks ---
+// Everything here is worked out from the points ledger, quests and event check-ins,
+// so it needs no storage of its own. The only thing saved is when each badge was first
+// earned, so Ketua congratulates the user once and not on every device.
+
+export interface ActivityStats {
+  lifetimeKP: number;
+  questsCompleted: number;
+  kmWalked: number;
+  eventCheckIns: number;
+  taiChiCheckIns: number;
+  scamReports: number;
+  dailyStreak: number;
+  bestDailyStreak: number;
+  weeklyStreak: number;
+}
+
+export interface Level {
+  level: number;
+  title: string;
+  minKP: number;
+  // null at the top level
+  nextKP: number | null;
+  // 0-1 towards the next level
+  progress: number;
+}
+
+export interface Badge {
+  id: string;
+  name: string;
+  description: string;
+  emoji: string;
+  // Current and target value, for the "3/10 quests" progress under a locked badge
+  measure: (stats: ActivityStats) => { current: number; target: number };
+}
+
+// Lifetime KP needed for each level; spending points never takes a level away
+const LEVEL_THRESHOLDS: { minKP: number; title: string }[] = [
+  { minKP: 0, title: 'Kampung Newbie' },
+  { minKP: 200, title: 'Friendly Neighbour' },
+  { minKP: 500, title: 'Void Deck Regular' },
+  { minKP: 1000, title: 'Kampung Spirit' },
+  { minKP: 2000, title: 'Kampung Hero' },
+  { minKP: 4000, title: 'Kampung Legend' }
+];
+
+export const BADGES: Badge[] = [
+  {
+    id: 'first-tai-chi',
+    name: 'Tai Chi Starter',
+    description: 'Checked in at your first tai chi session',
+    emoji: '🥋',
+    measure: stats => ({ current: stats.taiChiCheckIns, target: 1 })
+  },
+  {
+    id: 'first-quest',
+    name: 'First Steps',
+    description: 'Finished your first quest',
+    emoji: '👣',
+    measure: stats => ({ current: stats.questsCompleted, target: 1 })
+  },
+  {
+    id: 'quests-10',
+    name: 'Seasoned Explorer',
+    description: 'Finished 10 quests',
+    emoji: '🧭',
+    measure: stats => ({ current: stats.questsCompleted, target: 10 })
+  },
+  {
+    id: 'walked-5km',
+    name: '5 km Walker',
+    description: 'Walked 5 km on quests',
+    emoji: '🚶',
+    measure: stats => ({ current: Math.floor(stats.kmWalked * 10) / 10, target: 5 })
+  },
+  {
+    id: 'scam-buster',
+    name: 'Scam Buster',
+    description: 'Helped warn the kampung by reporting a scam',
+    emoji: '🛡️',
+    measure: stats => ({ current: stats.scamReports, target: 1 })
+  },
+  {
+    id: 'event-regular',
+    name: 'Event Regular',
+    description: 'Checked in at 5 community events',
+    emoji: '🎉',
+    measure: stats => ({ current: stats.eventCheckIns, target: 5 })
+  },
+  {
+    id: 'streak-7',
+    name: 'Week Warrior',
+    description: 'Active 7 days in a row',
+    emoji: '🔥',
+    measure: stats => ({ current: stats.bestDailyStreak, target: 7 })
+  }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TAI_CHI_PATTERN = /tai\s*chi/i;
+
+export const isBadgeEarned = (badge: Badge, stats: ActivityStats) => {
+  const { current, target } = badge.measure(stats);
+  return current >= target;
+};
+
+export const levelFor = (lifetimeKP: number): Level => {
+  const index = LEVEL_THRESHOLDS.reduce((found, threshold, i) => (lifetimeKP >= threshold.minKP ? i : found), 0);
+  const current = LEVEL_THRESHOLDS[index];
+  const next = LEVEL_THRESHOLDS[index + 1];
+  return {
+    level: index + 1,
+    title: current.title,
+    minKP: current.minKP,
+    nextKP: next ? next.minKP : null,
+    progress: next ? (lifetimeKP - current.minKP) / (next.minKP - current.minKP) : 1
+  };
+};
+
+// Monday of the week, as a local date key
+const weekKey = (timestamp: number) => {
+  const day = new Date(startOfDay(timestamp));
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return toDateKey(day.getTime());
+};
+
+// Consecutive periods with activity ending now, or ending in the last period
+// (a streak is not broken until the current day or week is over)
+const currentRun = (activeKeys: Set<string>, keyFor: (timestamp: number) => string, stepMs: number, now: number) => {
+  let cursor = activeKeys.has(keyFor(now)) ? now : now - stepMs;
+  let run = 0;
+  while (activeKeys.has(keyFor(cursor))) {
+    run++;
+    cursor -= stepMs;
+  }
+  return run;
+};
+
+const longestRun = (activeDays: string[]) => {
+  const sorted = [...activeDays].sort();
+  let best = 0;
+  let run = 0;
+  sorted.forEach((key, i) => {
+    // Noon avoids daylight saving shifts when stepping between days
+    const previous = i > 0 ? toDateKey(new Date(`${key}T12:00:00`).getTime() - DAY_MS) : null;
+    run = previous === sorted[i - 1] ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+};
+
+export const computeActivityStats = (
+  ledger: PointTransaction[],
+  quests: Quest[],
+  events: CommunityEvent[],
+  // Who check-ins are recorded under: the Firebase uid, so they count on every device,
+  // or the device id while signed out
+  ownerId: string,
+  now = Date.now()
+): ActivityStats => {
+  const completed = quests.filter(quest => quest.status === 'completed');
+  // Bus and MRT rides do not count as walking
+  const kmWalked = completed.reduce((total, quest) =>
+    total + (quest.route?.walkingDistanceM !== undefined ? quest.route.walkingDistanceM / 1000 : quest.distance), 0);
+
+  const myCheckIns = (event: CommunityEvent) => event.checkIns.filter(checkIn => checkIn.userId === ownerId);
+  const checkInTimes = events.flatMap(event => myCheckIns(event).map(checkIn => checkIn.timestamp));
+
+  // Anything the user did counts towards a streak; the welcome bonus and spending do not
+  const activityTimes = [
+    ...ledger
+      .filter(transaction => transaction.amount > 0 && transaction.source !== 'welcome')
+      .map(transaction => transaction.timestamp),
+    ...checkInTimes
+  ];
+  const activeDays = new Set(activityTimes.map(toDateKey));
+  const activeWeeks = new Set(activityTimes.map(weekKey));
+
+  return {
+    lifetimeKP: ledger.filter(transaction => transaction.amount > 0).reduce((sum, t) => sum + t.amount, 0),
+    questsCompleted: completed.length,
+    kmWalked,
+    eventCheckIns: checkInTimes.length,
+    taiChiCheckIns: events
+      .filter(event => TAI_CHI_PATTERN.test(event.name))
+      .reduce((count, event) => count + myCheckIns(event).length, 0),
+    scamReports: ledger.filter(transaction => transaction.source === 'scam_report').length,
+    dailyStreak: currentRun(activeDays, toDateKey, DAY_MS, now),
+    bestDailyStreak: longestRun(Array.from(activeDays)),
+    weeklyStreak: currentRun(activeWeeks, weekKey, 7 * DAY_MS, now)
+  };
+};
+
+// Badges the stats qualify for that have not been recorded yet
+export const findNewBadges = (stats: ActivityStats, earnedAt: Record<string, number>) =>
+  BADGES.filter(badge => !earnedAt[badge.id] && isBadgeEarned(badge, stats));
+
+export const describeNewBadges = (badges: Badge[]) =>
+  badges.length === 1
+    ? `the ${badges[0].name} badge (${badges[0].description.toLowerCase()})`
+    : `${badges.length} new badges: ${badges.map(badge => badge.name).join(', ')}`;
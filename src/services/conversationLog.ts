@@ -0,0 +1,144 @@
+import { Database, ref, push, set, update, query, orderByChild, startAt, onValue } from 'firebase/database';
+
+// --- Conversation Log Types (conversations/{ownerId}/{conversationId}) ---
+
+export type Speaker = 'user' | 'ketua';
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ConversationTurn {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  timestamp: number;
+  toolCalls?: ToolCallRecord[];
+  interrupted?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  turns: ConversationTurn[];
+}
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  turns: ConversationTurn[];
+}
+
+export interface TranscriptRecorder {
+  conversationId: string;
+  addInput: (text: string) => void;
+  addOutput: (text: string) => void;
+  addToolCall: (call: ToolCallRecord) => void;
+  // Writes the buffered user and Ketua text as turns
+  endTurn: (interrupted?: boolean) => void;
+  recentTurns: (count: number) => Omit<ConversationTurn, 'id'>[];
+}
+
+// --- Recording ---
+
+// Transcription arrives in fragments; buffer them until the model's turn ends
+export const createTranscriptRecorder = (db: Database, ownerId: string): TranscriptRecorder => {
+  const conversationRef = push(ref(db, `conversations/${ownerId}`));
+  const conversationId = conversationRef.key || `${Date.now()}`;
+  const startedAt = Date.now();
+  const history: Omit<ConversationTurn, 'id'>[] = [];
+
+  let input = '';
+  let output = '';
+  let toolCalls: ToolCallRecord[] = [];
+  let started = false;
+
+  const writeTurn = (turn: Omit<ConversationTurn, 'id'>) => {
+    history.push(turn);
+
+    // Firebase rejects undefined values, so only set the optional fields when present
+    const record: Record<string, unknown> = { speaker: turn.speaker, text: turn.text, timestamp: turn.timestamp };
+    if (turn.toolCalls?.length) record.toolCalls = turn.toolCalls;
+    if (turn.interrupted) record.interrupted = true;
+
+    const writes = [
+      set(push(ref(db, `conversations/${ownerId}/${conversationId}/turns`)), record),
+      started
+        ? update(conversationRef, { updatedAt: turn.timestamp })
+        : update(conversationRef, { startedAt, updatedAt: turn.timestamp })
+    ];
+    started = true;
+    Promise.all(writes).catch(err => console.error('[TRANSCRIPT] Failed to save turn:', err));
+  };
+
+  return {
+    conversationId,
+    addInput: (text) => { input += text; },
+    addOutput: (text) => { output += text; },
+    addToolCall: (call) => { toolCalls.push(call); },
+    endTurn: (interrupted = false) => {
+      const now = Date.now();
+      if (input.trim()) {
+        writeTurn({ speaker: 'user', text: input.trim(), timestamp: now - 1 });
+      }
+      if (output.trim() || toolCalls.length > 0) {
+        writeTurn({
+          speaker: 'ketua',
+          text: output.trim(),
+          timestamp: now,
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+          ...(interrupted ? { interrupted } : {})
+        });
+      }
+      input = '';
+      output = '';
+      toolCalls = [];
+    },
+    recentTurns: (count) => history.slice(-count)
+  };
+};
+
+export const subscribeConversations = (
+  db: Database,
+  ownerId: string,
+  since: number,
+  onConversations: (conversations: Conversation[]) => void
+) => {
+  const conversationsQuery = query(ref(db, `conversations/${ownerId}`), orderByChild('startedAt'), startAt(since));
+
+  return onValue(conversationsQuery, (snapshot) => {
+    const conversations: Conversation[] = [];
+    snapshot.forEach(child => {
+      const value = child.val();
+      const turns = Object.entries<Omit<ConversationTurn, 'id'>>(value.turns || {})
+        .map(([id, turn]) => ({ id, ...turn }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+      conversations.push({ id: child.key || '', startedAt: value.startedAt, updatedAt: value.updatedAt, turns });
+    });
+    onConversations(conversations.sort((a, b) => b.startedAt - a.startedAt));
+  });
+};
+
+// --- Search ---
+
+// Case-insensitive match on turn text and tool names; every word must appear in the turn
+export const searchConversations = (conversations: Conversation[], search: string): ConversationMatch[] => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return conversations.map(conversation => ({ conversation, turns: [] }));
+
+  return conversations
+    .map(conversation => ({
+      conversation,
+      turns: conversation.turns.filter(turn => {
+        const haystack = `${turn.text} ${(turn.toolCalls || []).map(c => c.name).join(' ')}`.toLowerCase();
+        return words.every(word => haystack.includes(word));
+      })
+    }))
+    .filter(match => match.turns.length > 0);
+};
+
+export const describeToolCall = (call: ToolCallRecord) => {
+  const detail = Object.values(call.args).find(v => typeof v === 'string');
+  return detail ? `${call.name}: ${detail}` : call.name;
+};
@@ -0,0 +1,205 @@
+import { Database, ref, set, push, remove, update, onValue, get } from 'firebase/database';
+
+// --- SOS Distress Types ---
+
+export type SosTrigger = 'button' | 'voice';
+
+export type SosStatus = 'countdown' | 'active' | 'cancelled' | 'resolved';
+
+export type SosSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type SosEventType =
+  | 'triggered'
+  | 'cancelled'
+  | 'escalated'
+  | 'contact_notified'
+  | 'location_update'
+  | 'call_started'
+  | 'call_failed'
+  | 'resolved';
+
+export interface SosIncident {
+  id: string;
+  userId: string;
+  userName: string;
+  trigger: SosTrigger;
+  status: SosStatus;
+  startedAt: number;
+  location: { lat: number; lng: number } | null;
+  notifiedContacts: string[];
+  severity?: SosSeverity;
+  reason?: string;
+}
+
+export interface SosLogEntry {
+  id: string;
+  incidentId: string;
+  type: SosEventType;
+  message: string;
+  timestamp: number;
+  location?: { lat: number; lng: number };
+}
+
+// Alert written to sosAlerts/{contactId}/{incidentId}. Kept apart from calls/{contactId},
+// where the SOS call offer to the same contact would overwrite it
+export interface IncomingSosAlert {
+  incidentId: string;
+  from: string;
+  fromName: string;
+  timestamp: number;
+  location: { lat: number; lng: number } | null;
+  reason?: string;
+}
+
+// Anything with an id, name and presence can be alerted (e.g. KampungConnection)
+export interface SosContact {
+  id: string;
+  name: string;
+  status: 'online' | 'offline' | 'busy';
+}
+
+export const SOS_COUNTDOWN_SECONDS = 10;
+
+// When Ketua raised the SOS, the countdown holds while Ketua asks the user to confirm,
+// but for no more than this in total so a long reply cannot stall the alert
+export const SOS_VOICE_PAUSE_SECONDS = 10;
+
+// Location updates are shared continuously but only logged this often
+export const SOS_LOCATION_LOG_INTERVAL_MS = 30000;
+
+export const createSosIncident = (
+  userId: string,
+  userName: string,
+  trigger: SosTrigger,
+  location: { lat: number; lng: number } | null,
+  details: { severity?: SosSeverity; reason?: string } = {}
+): SosIncident => ({
+  id: `sos-${Date.now()}`,
+  userId,
+  userName,
+  trigger,
+  status: 'countdown',
+  startedAt: Date.now(),
+  location,
+  notifiedContacts: [],
+  ...(details.severity ? { severity: details.severity } : {}),
+  ...(details.reason ? { reason: details.reason } : {})
+});
+
+export const isSosSeverity = (value: unknown): value is SosSeverity =>
+  value === 'low' || value === 'medium' || value === 'high' || value === 'critical';
+
+// Append an event to sosLogs/{userId}/{incidentId}/events for caregiver review
+export const logSosEvent = (
+  db: Database,
+  incident: SosIncident,
+  type: SosEventType,
+  message: string,
+  location?: { lat: number; lng: number } | null
+): SosLogEntry => {
+  const eventRef = push(ref(db, `sosLogs/${incident.userId}/${incident.id}/events`));
+  const entry: SosLogEntry = {
+    id: eventRef.key || `${incident.id}-${Date.now()}`,
+    incidentId: incident.id,
+    type,
+    message,
+    timestamp: Date.now(),
+    ...(location ? { location } : {})
+  };
+
+  set(eventRef, entry).catch(err => console.error('[SOS] Failed to log event:', err));
+  update(ref(db, `sosLogs/${incident.userId}/${incident.id}`), {
+    status: incident.status,
+    trigger: incident.trigger,
+    startedAt: incident.startedAt,
+    userName: incident.userName,
+    ...(incident.severity ? { severity: incident.severity } : {}),
+    ...(incident.reason ? { reason: incident.reason } : {})
+  }).catch(err => console.error('[SOS] Failed to update incident summary:', err));
+
+  console.log(`[SOS] ${type}: ${message}`);
+  return entry;
+};
+
+// Notify every contact through sosAlerts/{contactId}, returning the ids that were reached
+export const notifySosContacts = async (
+  db: Database,
+  incident: SosIncident,
+  contacts: SosContact[]
+): Promise<string[]> => {
+  const alert: IncomingSosAlert = {
+    incidentId: incident.id,
+    from: incident.userId,
+    fromName: incident.userName,
+    timestamp: Date.now(),
+    location: incident.location,
+    ...(incident.reason ? { reason: incident.reason } : {})
+  };
+
+  const results = await Promise.allSettled(
+    contacts.map(contact =>
+      set(ref(db, `sosAlerts/${contact.id}/${incident.id}`), alert).then(() => contact.id)
+    )
+  );
+
+  return results
+    .filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled')
+    .map(r => r.value);
+};
+
+// Live location share read by contacts who received the alert
+export const updateSosLocation = (
+  db: Database,
+  incident: SosIncident,
+  location: { lat: number; lng: number }
+) => {
+  return set(ref(db, `sos/${incident.userId}`), {
+    incidentId: incident.id,
+    status: incident.status,
+    location,
+    updatedAt: Date.now()
+  });
+};
+
+// Mark the incident finished and withdraw outstanding alerts
+export const clearSosAlerts = async (db: Database, incident: SosIncident) => {
+  await update(ref(db, `sos/${incident.userId}`), {
+    status: incident.status,
+    updatedAt: Date.now()
+  });
+  await Promise.allSettled(
+    incident.notifiedContacts.map(id => dismissSosAlert(db, id, incident.id))
+  );
+};
+
+// Latest alert raised to this contact, or null when there is none
+export const subscribeSosAlerts = (
+  db: Database,
+  contactId: string,
+  onAlert: (alert: IncomingSosAlert | null) => void
+) =>
+  onValue(ref(db, `sosAlerts/${contactId}`), (snapshot) => {
+    const alerts = Object.values<IncomingSosAlert>(snapshot.val() || {});
+    onAlert(alerts.reduce<IncomingSosAlert | null>((latest, alert) =>
+      (!latest || alert.timestamp > latest.timestamp ? alert : latest), null));
+  });
+
+export const dismissSosAlert = (db: Database, contactId: string, incidentId: string) =>
+  remove(ref(db, `sosAlerts/${contactId}/${incidentId}`));
+
+// The first contact, in the user's saved order, whose live presence at users/{id} is online.
+// The status saved with a connection is only a guess from when it was added, so it is not used.
+export const pickSosCallee = async <T extends SosContact>(db: Database, contacts: T[]): Promise<T | null> => {
+  const online = await Promise.all(contacts.map(contact =>
+    get(ref(db, `users/${contact.id}/status`))
+      .then(snapshot => snapshot.val() === 'online')
+      .catch(err => {
+        console.error(`[SOS] Failed to read presence for ${contact.id}:`, err);
+        return false;
+      })
+  ));
+  return contacts.find((_, index) => online[index]) || null;
+};
+
+export const formatMapsLink = (location: { lat: number; lng: number }) =>
+  `https://www.google.com/maps?q=${location.lat},${location.lng}`;
@@ -0,0 +1,177 @@
+import type { LiveServerMessage, LiveSendRealtimeInputParameters, Session } from '@google/genai';
+
+// --- Live Session Manager ---
+// Wraps ai.live.connect so a dropped socket reconnects with exponential
+// backoff, resuming the server-side session when a resumption handle is
+// available. The caller re-injects app state after every reconnect.
+
+export type LiveSessionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface LiveSessionEvents {
+  onopen: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onclose: (event: CloseEvent) => void;
+  onerror: (event: ErrorEvent) => void;
+}
+
+export interface LiveSessionManagerOptions {
+  // Opens one connection; must pass `resumeHandle` as sessionResumption.handle
+  connect: (resumeHandle: string | undefined, events: LiveSessionEvents) => Promise<Session>;
+  onSession?: (session: Promise<Session>) => void;
+  onStatusChange?: (status: LiveSessionStatus, attempt: number) => void;
+  // Called once a reconnect is open; `resumed` is false when the model lost its context
+  onReconnected?: (session: Session, resumed: boolean) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface LiveSessionManager {
+  start: () => Promise<Session>;
+  stop: () => void;
+  // Drops the input while reconnecting instead of queueing stale audio
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  getStatus: () => LiveSessionStatus;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+export const createLiveSessionManager = (options: LiveSessionManagerOptions): LiveSessionManager => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  let status: LiveSessionStatus = 'closed';
+  let attempt = 0;
+  let resumeHandle: string | undefined;
+  let current: Promise<Session> | null = null;
+  let session: Session | null = null;
+  let retryTimer: number | null = null;
+  let stopped = false;
+  let goingAway = false;
+
+  const setStatus = (next: LiveSessionStatus) => {
+    status = next;
+    options.onStatusChange?.(next, attempt);
+  };
+
+  const clearRetry = () => {
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    window.removeEventListener('online', retryNow);
+  };
+
+  const retryNow = () => {
+    if (retryTimer === null) return;
+    console.log('[LIVE] Back online, reconnecting now');
+    clearRetry();
+    open(true);
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || retryTimer !== null) return;
+    session = null;
+
+    if (attempt >= maxAttempts) {
+      console.error(`[LIVE] Giving up after ${attempt} reconnect attempts`);
+      setStatus('closed');
+      return;
+    }
+
+    // goAway means a planned server restart, so reconnect straight away
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    const delay = goingAway ? 0 : backoff / 2 + Math.random() * backoff / 2;
+    goingAway = false;
+    attempt++;
+    setStatus('reconnecting');
+    console.log(`[LIVE] Reconnect attempt ${attempt} in ${Math.round(delay)}ms${resumeHandle ? ' (resuming)' : ''}`);
+
+    retryTimer = window.setTimeout(() => {
+      retryTimer = null;
+      window.removeEventListener('online', retryNow);
+      open(true);
+    }, delay);
+    window.addEventListener('online', retryNow);
+  };
+
+  const open = (isReconnect: boolean): Promise<Session> => {
+    const usedHandle = resumeHandle;
+    let receivedMessage = false;
+
+    const events: LiveSessionEvents = {
+      onopen: () => console.log('[LIVE] Socket open'),
+      onmessage: (msg) => {
+        receivedMessage = true;
+        const update = msg.sessionResumptionUpdate;
+        if (update?.resumable && update.newHandle) {
+          resumeHandle = update.newHandle;
+        }
+        if (msg.goAway) {
+          console.warn(`[LIVE] Server going away in ${msg.goAway.timeLeft}`);
+          goingAway = true;
+        }
+      },
+      onclose: (event) => {
+        if (connection !== current) return;
+        console.warn(`[LIVE] Socket closed (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+        // A stale handle is rejected straight away; start a fresh session next time
+        if (usedHandle && !receivedMessage) resumeHandle = undefined;
+        scheduleReconnect();
+      },
+      onerror: (event) => {
+        console.error('[LIVE] Socket error', event.message || event);
+      }
+    };
+
+    if (!isReconnect) setStatus('connecting');
+    const connection = options.connect(usedHandle, events);
+    current = connection;
+    options.onSession?.(connection);
+
+    connection.then(opened => {
+      if (stopped || connection !== current) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      attempt = 0;
+      setStatus('connected');
+      if (isReconnect) options.onReconnected?.(opened, !!usedHandle);
+    }).catch(err => {
+      if (connection !== current) return;
+      console.error('[LIVE] Connect failed:', err);
+      if (usedHandle) resumeHandle = undefined;
+      scheduleReconnect();
+    });
+
+    return connection;
+  };
+
+  return {
+    start: () => {
+      stopped = false;
+      attempt = 0;
+      resumeHandle = undefined;
+      return open(false);
+    },
+    stop: () => {
+      stopped = true;
+      clearRetry();
+      const closing = current;
+      current = null;
+      session = null;
+      closing?.then(s => s.close()).catch(() => undefined);
+      setStatus('closed');
+    },
+    sendRealtimeInput: (params) => {
+      if (status === 'connected' && session) {
+        session.sendRealtimeInput(params);
+      }
+    },
+    getStatus: () => status
+  };
+};
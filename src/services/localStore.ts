@@ -0,0 +1,76 @@
+// --- Local IndexedDB Store ---
+// Small promise wrapper around IndexedDB for data that must work offline.
+// Falls back to memory when IndexedDB is unavailable (private mode, tests).
+
+const DB_NAME = 'kampung-ai';
+// Bump DB_VERSION whenever a store is added to LOCAL_STORES
+const DB_VERSION = 2;
+
+export const LOCAL_STORES = ['userRecords', 'pendingWrites'] as const;
+export type LocalStoreName = typeof LOCAL_STORES[number];
+
+export interface LocalStore<T> {
+  get: (key: string) => Promise<T | undefined>;
+  getAll: () => Promise<T[]>;
+  put: (key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        LOCAL_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <R>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> =>
+  openDatabase().then(db => new Promise<R>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const createMemoryStore = <T>(): LocalStore<T> => {
+  const data = new Map<string, T>();
+  return {
+    get: async (key) => data.get(key),
+    getAll: async () => Array.from(data.values()),
+    put: async (key, value) => { data.set(key, value); },
+    remove: async (key) => { data.delete(key); }
+  };
+};
+
+export const getLocalStore = <T>(storeName: LocalStoreName): LocalStore<T> => {
+  if (typeof indexedDB === 'undefined') {
+    console.warn(`[LOCAL STORE] IndexedDB not available, keeping ${storeName} in memory`);
+    return createMemoryStore<T>();
+  }
+
+  return {
+    get: (key) => runRequest<T | undefined>(storeName, 'readonly', store => store.get(key)),
+    getAll: () => runRequest<T[]>(storeName, 'readonly', store => store.getAll()),
+    put: (key, value) => runRequest(storeName, 'readwrite', store => store.put(value, key)).then(() => undefined),
+    remove: (key) => runRequest(storeName, 'readwrite', store => store.delete(key)).then(() => undefined)
+  };
+};
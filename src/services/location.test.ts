@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocationFix, LocationProvider, createLocationTracker } from './location';
+
+const HOME = { lat: 1.35, lng: 103.8 };
+
+// Hands the tracker whatever fixes the test pushes
+const createFakeProvider = () => {
+  let push: (fix: LocationFix) => void = () => {};
+  const provider: LocationProvider = {
+    name: 'fake',
+    start: (onFix) => {
+      push = onFix;
+      return () => {};
+    }
+  };
+  return { provider, push: (fix: LocationFix) => push(fix) };
+};
+
+describe('createLocationTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('navigator', {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('takes a coarse fix indoors once good fixes have stopped coming', () => {
+    const { provider, push } = createFakeProvider();
+    const onLocation = vi.fn();
+    createLocationTracker(provider, { onLocation }).start();
+
+    const fixAt = (seconds: number, accuracy: number): LocationFix => {
+      vi.setSystemTime(seconds * 1000);
+      return { ...HOME, accuracy, timestamp: seconds * 1000 };
+    };
+
+    push(fixAt(0, 10));
+    push(fixAt(5, 150));
+    expect(onLocation).toHaveBeenCalledTimes(1);
+
+    push(fixAt(40, 150));
+    expect(onLocation).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,319 @@
+import { LatLng } from '../types';
+import { haversineDistance } from '../utils/geo';
+
+// --- Location Tracking ---
+// A provider produces raw fixes (browser GPS or a replayed track); the tracker
+// filters out inaccurate fixes and jumps, smooths jitter and throttles updates
+// when the battery is low.
+
+export interface LocationFix extends LatLng {
+  accuracy: number; // metres
+  timestamp: number;
+  heading?: number | null;
+  speed?: number | null;
+}
+
+export interface LocationProviderOptions {
+  highAccuracy: boolean;
+}
+
+export interface LocationProvider {
+  name: string;
+  // Returns a function that stops the provider
+  start: (
+    onFix: (fix: LocationFix) => void,
+    onError: (error: Error) => void,
+    options: LocationProviderOptions
+  ) => () => void;
+}
+
+export interface TrackPoint extends LatLng {
+  // Milliseconds from the start of the track; missing times are spaced evenly
+  t?: number;
+}
+
+export interface LocationTrackerOptions {
+  onLocation: (fix: LocationFix) => void;
+  onError?: (error: Error) => void;
+  // Fixes less accurate than this are dropped once we have a good one
+  maxAccuracyM?: number;
+}
+
+export interface LocationTracker {
+  start: () => void;
+  stop: () => void;
+  // Forces full-rate high accuracy regardless of battery, e.g. during an SOS
+  setHighPriority: (highPriority: boolean) => void;
+}
+
+const DEFAULT_MAX_ACCURACY_M = 50;
+// Accept a coarse fix when there is nothing better, so the map has somewhere to start
+const COARSE_FIX_MAX_ACCURACY_M = 500;
+// Indoors or under a void deck good fixes stop coming; after this long a coarse one is taken
+const STALE_FIX_MS = 30000;
+// Faster than any of our users walk or take the bus; anything above is a GPS jump
+const MAX_PLAUSIBLE_SPEED_MS = 25;
+// Expected movement noise for the smoothing filter, roughly brisk walking
+const PROCESS_NOISE_MS = 3;
+const NORMAL_INTERVAL_MS = 1000;
+const LOW_BATTERY_INTERVAL_MS = 10000;
+const LOW_BATTERY_LEVEL = 0.2;
+
+// Battery Status API, which TypeScript's DOM types leave out
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+// A point as written in a JSON track; GPX tools export lon rather than lng
+interface JsonTrackPoint {
+  lat?: unknown;
+  lng?: unknown;
+  lon?: unknown;
+  t?: unknown;
+}
+
+// --- Providers ---
+
+export const createBrowserLocationProvider = (): LocationProvider => ({
+  name: 'gps',
+  start: (onFix, onError, options) => {
+    if (!navigator.geolocation) {
+      onError(new Error('Geolocation is not supported on this device'));
+      return () => {};
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => onFix({
+        lat: pos.coords.latitude,
+        lng: pos.coords.longitude,
+        accuracy: pos.coords.accuracy,
+        heading: pos.coords.heading,
+        speed: pos.coords.speed,
+        timestamp: pos.timestamp
+      }),
+      (err) => onError(new Error(err.message || 'Location unavailable')),
+      {
+        enableHighAccuracy: options.highAccuracy,
+        maximumAge: options.highAccuracy ? 1000 : 15000,
+        timeout: 30000
+      }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+});
+
+// Replays a recorded walk so navigation can be tested at a desk
+export const createSimulatedLocationProvider = (
+  track: TrackPoint[],
+  options: { speed?: number; loop?: boolean; stepMs?: number; accuracy?: number } = {}
+): LocationProvider => ({
+  name: 'simulated',
+  start: (onFix, onError) => {
+    if (track.length === 0) {
+      onError(new Error('Simulated track is empty'));
+      return () => {};
+    }
+    const speed = options.speed ?? 1;
+    const stepMs = options.stepMs ?? 2000;
+    const times = track.map((point, index) => point.t ?? index * stepMs);
+    let index = 0;
+    let timer: number | null = null;
+
+    const emit = () => {
+      const point = track[index];
+      onFix({ lat: point.lat, lng: point.lng, accuracy: options.accuracy ?? 8, timestamp: Date.now() });
+
+      index++;
+      if (index >= track.length) {
+        if (!options.loop) return;
+        index = 0;
+      }
+      const wait = index === 0 ? stepMs : Math.max(0, times[index] - times[index - 1]);
+      timer = window.setTimeout(emit, wait / speed);
+    };
+
+    emit();
+    return () => {
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }
+});
+
+// Accepts GPX (<trkpt lat="" lon=""><time/></trkpt>) or JSON [{ lat, lng, t? }]
+export const parseTrack = (text: string): TrackPoint[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const points: JsonTrackPoint[] = Array.isArray(data) ? data : data.points || [];
+    return points
+      .map(point => ({
+        lat: Number(point.lat),
+        lng: Number(point.lng ?? point.lon),
+        t: typeof point.t === 'number' ? point.t : undefined
+      }))
+      .filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+  }
+
+  const doc = new DOMParser().parseFromString(trimmed, 'application/xml');
+  const trackPoints = Array.from(doc.querySelectorAll('trkpt, rtept, wpt'));
+  if (trackPoints.length === 0) {
+    throw new Error('No track points found in GPX');
+  }
+  const startTime = Date.parse(trackPoints[0].querySelector('time')?.textContent || '');
+  return trackPoints.map(node => {
+    const time = Date.parse(node.querySelector('time')?.textContent || '');
+    return {
+      lat: Number(node.getAttribute('lat')),
+      lng: Number(node.getAttribute('lon')),
+      t: Number.isFinite(time) && Number.isFinite(startTime) ? time - startTime : undefined
+    };
+  });
+};
+
+export const loadSimulatedTrack = async (url: string): Promise<TrackPoint[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load track ${url}: ${response.status}`);
+  }
+  return parseTrack(await response.text());
+};
+
+// --- Tracker ---
+
+export const createLocationTracker = (provider: LocationProvider, options: LocationTrackerOptions): LocationTracker => {
+  const maxAccuracy = options.maxAccuracyM ?? DEFAULT_MAX_ACCURACY_M;
+
+  let stopProvider: (() => void) | null = null;
+  let smoothed: LocationFix | null = null;
+  // Variance of the smoothed position, in metres squared
+  let variance = 0;
+  let lastEmitted = 0;
+  let lowBattery = false;
+  let highPriority = false;
+  let running = false;
+  let battery: BatteryManager | null = null;
+
+  const highAccuracy = () => highPriority || !lowBattery;
+  const minInterval = () => (highAccuracy() ? NORMAL_INTERVAL_MS : LOW_BATTERY_INTERVAL_MS);
+
+  // One-dimensional Kalman filter shared by lat and lng: trusts accurate fixes more,
+  // and lets uncertainty grow with time since the last one
+  const smooth = (fix: LocationFix): LocationFix | null => {
+    if (!smoothed) {
+      if (fix.accuracy > COARSE_FIX_MAX_ACCURACY_M) return null;
+      variance = fix.accuracy * fix.accuracy;
+      smoothed = fix;
+      return fix;
+    }
+
+    // Grown before the accuracy check, so the longer fixes are rejected the less the last one counts
+    const elapsedS = Math.max(0, (fix.timestamp - smoothed.timestamp) / 1000);
+    const predicted = variance + elapsedS * PROCESS_NOISE_MS * PROCESS_NOISE_MS;
+    const stale = elapsedS * 1000 >= STALE_FIX_MS && fix.accuracy <= COARSE_FIX_MAX_ACCURACY_M;
+    if (fix.accuracy > maxAccuracy && fix.accuracy >= Math.sqrt(predicted) && !stale) return null;
+
+    const jump = haversineDistance(smoothed, fix);
+    if (elapsedS > 0 && jump / elapsedS > MAX_PLAUSIBLE_SPEED_MS && jump > fix.accuracy + Math.sqrt(predicted)) {
+      return null;
+    }
+
+    variance = predicted;
+    const gain = variance / (variance + fix.accuracy * fix.accuracy);
+    smoothed = {
+      ...fix,
+      lat: smoothed.lat + gain * (fix.lat - smoothed.lat),
+      lng: smoothed.lng + gain * (fix.lng - smoothed.lng),
+      accuracy: Math.sqrt((1 - gain) * variance)
+    };
+    variance = (1 - gain) * variance;
+    return smoothed;
+  };
+
+  const handleFix = (fix: LocationFix) => {
+    const result = smooth(fix);
+    if (!result) return;
+    const now = Date.now();
+    if (lastEmitted && now - lastEmitted < minInterval()) return;
+    lastEmitted = now;
+    options.onLocation(result);
+  };
+
+  const handleError = (error: Error) => {
+    console.warn(`[LOCATION] ${provider.name} error:`, error.message);
+    options.onError?.(error);
+  };
+
+  const restartProvider = () => {
+    stopProvider?.();
+    stopProvider = provider.start(handleFix, handleError, { highAccuracy: highAccuracy() });
+  };
+
+  const onBatteryChange = () => {
+    if (!battery) return;
+    const wasLow = lowBattery;
+    lowBattery = !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+    if (wasLow !== lowBattery && running) {
+      console.log(`[LOCATION] Battery ${lowBattery ? 'low, saving power' : 'ok, full accuracy'}`);
+      restartProvider();
+    }
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    restartProvider();
+
+    // Battery Status API is Chrome-only; elsewhere we always track at full rate
+    const nav = navigator as NavigatorWithBattery;
+    if (typeof nav.getBattery === 'function') {
+      nav.getBattery().then((manager) => {
+        if (!running) return;
+        battery = manager;
+        battery.addEventListener('levelchange', onBatteryChange);
+        battery.addEventListener('chargingchange', onBatteryChange);
+        onBatteryChange();
+      }).catch(() => {});
+    }
+  };
+
+  const stop = () => {
+    running = false;
+    stopProvider?.();
+    stopProvider = null;
+    if (battery) {
+      battery.removeEventListener('levelchange', onBatteryChange);
+      battery.removeEventListener('chargingchange', onBatteryChange);
+      battery = null;
+    }
+  };
+
+  const setHighPriority = (next: boolean) => {
+    if (highPriority === next) return;
+    const before = highAccuracy();
+    highPriority = next;
+    if (running && before !== highAccuracy()) restartProvider();
+  };
+
+  return { start, stop, setHighPriority };
+};
+
+// ?simulateTrack=<url of a GPX or JSON track> replays a walk instead of using GPS
+export const createLocationProviderFromUrl = async (): Promise<LocationProvider> => {
+  const params = new URLSearchParams(window.location.search);
+  const trackUrl = params.get('simulateTrack');
+  if (!trackUrl) return createBrowserLocationProvider();
+
+  try {
+    const track = await loadSimulatedTrack(trackUrl);
+    console.log(`[LOCATION] Replaying ${track.length} points from ${trackUrl}`);
+    return createSimulatedLocationProvider(track, {
+      speed: Number(params.get('simulateSpeed')) || 1,
+      loop: params.get('simulateLoop') === '1'
+    });
+  } catch (error) {
+    console.error('[LOCATION] Could not load simulated track, using GPS:', error);
+    return createBrowserLocationProvider();
+  }
+};
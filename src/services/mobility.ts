@@ -0,0 +1,112 @@
+import { Database, ref, set, onValue } from 'firebase/database';
+
+// --- Mobility Profile Types (mobilityProfiles/{ownerId}) ---
+
+export type MobilityAid = 'none' | 'walking_aid' | 'wheelchair' | 'pram';
+
+export interface MobilityProfile {
+  aid: MobilityAid;
+  needsRestStops: boolean;
+  // Distance between rest points when needsRestStops is on
+  restIntervalM: number;
+  updatedAt: number;
+}
+
+export const DEFAULT_MOBILITY_PROFILE: MobilityProfile = {
+  aid: 'none',
+  needsRestStops: false,
+  restIntervalM: 300,
+  updatedAt: 0
+};
+
+export const MOBILITY_AID_LABELS: Record<MobilityAid, string> = {
+  none: 'Walk on my own',
+  walking_aid: 'Walking stick or frame',
+  wheelchair: 'Wheelchair',
+  pram: 'Pushing a pram or trolley'
+};
+
+export const REST_INTERVAL_OPTIONS = [200, 300, 500];
+
+// Minutes per km, slower than the Directions estimate which assumes a brisk adult
+const PACE_FACTOR: Record<MobilityAid, number> = {
+  none: 1,
+  walking_aid: 1.6,
+  wheelchair: 1.3,
+  pram: 1.1
+};
+
+// Minutes spent at each rest point
+export const REST_STOP_MINUTES = 3;
+
+// Stairs and bridges are a hard stop for wheels and a struggle with a walking frame
+const STAIRS_PENALTY_M: Record<MobilityAid, number> = {
+  none: 0,
+  walking_aid: 300,
+  wheelchair: 2000,
+  pram: 800
+};
+
+// Steepest slope (rise over run) that is comfortable; 1:12 is the wheelchair ramp code limit
+const MAX_COMFORTABLE_GRADE: Record<MobilityAid, number> = {
+  none: 0.15,
+  walking_aid: 0.1,
+  wheelchair: 0.083,
+  pram: 0.1
+};
+
+const STAIRS_PATTERN = /\b(stairs|steps|staircase|overhead bridge|footbridge|overpass|underpass)\b/i;
+
+export const needsStepFreeRoute = (profile: MobilityProfile) => profile.aid !== 'none';
+
+export const adjustDurationForMobility = (minutes: number, profile: MobilityProfile, restStops: number) =>
+  Math.round(minutes * PACE_FACTOR[profile.aid] + restStops * REST_STOP_MINUTES);
+
+export const describeMobilityProfile = (profile: MobilityProfile) => {
+  const parts = profile.aid === 'none' ? [] : [MOBILITY_AID_LABELS[profile.aid].toLowerCase()];
+  if (profile.needsRestStops) parts.push(`rest every ${profile.restIntervalM} m`);
+  return parts.length > 0 ? parts.join(', ') : 'no special needs';
+};
+
+// --- Route Scoring ---
+
+export interface RouteAccessibility {
+  stairsSteps: string[];
+  maxGrade: number | null;
+}
+
+export const findStairs = (instructions: string[]) => instructions.filter(text => STAIRS_PATTERN.test(text));
+
+// Lower is better: route length plus penalties for stairs and slopes the user cannot manage
+export const scoreRoute = (distanceM: number, accessibility: RouteAccessibility, profile: MobilityProfile) => {
+  let score = distanceM + accessibility.stairsSteps.length * STAIRS_PENALTY_M[profile.aid];
+  if (accessibility.maxGrade !== null && accessibility.maxGrade > MAX_COMFORTABLE_GRADE[profile.aid]) {
+    score += (accessibility.maxGrade - MAX_COMFORTABLE_GRADE[profile.aid]) * 20000;
+  }
+  return score;
+};
+
+// Notes Ketua can read out, e.g. "Step 3 has stairs" or "Steep slope on the way"
+export const describeRouteAccessibility = (accessibility: RouteAccessibility, profile: MobilityProfile): string[] => {
+  const notes = accessibility.stairsSteps.map(step => `Stairs or bridge: ${step}`);
+  if (accessibility.maxGrade !== null && accessibility.maxGrade > MAX_COMFORTABLE_GRADE[profile.aid]) {
+    notes.push(`Steep slope on the way (about ${Math.round(accessibility.maxGrade * 100)}%), go slowly`);
+  }
+  return notes;
+};
+
+// --- Persistence ---
+// Keyed by the Firebase uid, so the profile follows the account to every device,
+// or by the device id while nobody is signed in
+
+export const saveMobilityProfile = (db: Database, ownerId: string, profile: Omit<MobilityProfile, 'updatedAt'>) =>
+  set(ref(db, `mobilityProfiles/${ownerId}`), { ...profile, updatedAt: Date.now() });
+
+export const subscribeMobilityProfile = (
+  db: Database,
+  ownerId: string,
+  onProfile: (profile: MobilityProfile) => void
+) =>
+  onValue(ref(db, `mobilityProfiles/${ownerId}`), (snapshot) => {
+    onProfile({ ...DEFAULT_MOBILITY_PROFILE, ...(snapshot.val() || {}) });
+  });
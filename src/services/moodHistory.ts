@@ -0,0 +1,261 @@
+import { Database, ref, push, set, query, orderByChild, startAt, onValue } from 'firebase/database';
+
+// --- Mood History Types ---
+
+export interface MoodReading {
+  id: string;
+  mood: string;
+  confidence: number;
+  shouldRespond: boolean;
+  timestamp: number;
+}
+
+export type MoodKey =
+  | 'happy'
+  | 'calm'
+  | 'neutral'
+  | 'confused'
+  | 'tired'
+  | 'worried'
+  | 'distressed';
+
+export interface MoodStreak {
+  mood: MoodKey;
+  start: number;
+  end: number;
+  readings: number;
+}
+
+export interface DayMoodSummary {
+  date: string; // YYYY-MM-DD in local time
+  readings: number;
+  counts: Partial<Record<MoodKey, number>>;
+  dominantMood: MoodKey | null;
+  concerningShare: number; // 0-1
+}
+
+export interface WeeklyWellbeingReport {
+  from: number;
+  to: number;
+  totalReadings: number;
+  days: DayMoodSummary[];
+  counts: Partial<Record<MoodKey, number>>;
+  dominantMood: MoodKey | null;
+  streaks: MoodStreak[];
+  concerningDays: { mood: MoodKey; dates: string[] }[];
+  headline: string;
+}
+
+export const CONCERNING_MOODS: MoodKey[] = ['worried', 'tired', 'distressed'];
+
+export const MOOD_STYLES: Record<MoodKey, { label: string; color: string; emoji: string }> = {
+  happy: { label: 'Happy', color: '#10B981', emoji: '😊' },
+  calm: { label: 'Calm', color: '#14B8A6', emoji: '😌' },
+  neutral: { label: 'Neutral', color: '#6B7280', emoji: '😐' },
+  confused: { label: 'Confused', color: '#8B5CF6', emoji: '😕' },
+  tired: { label: 'Tired', color: '#F59E0B', emoji: '😴' },
+  worried: { label: 'Worried', color: '#F97316', emoji: '😟' },
+  distressed: { label: 'Distressed', color: '#EF4444', emoji: '😢' }
+};
+
+// A sustained streak needs this many consecutive readings spanning at least the minimum duration
+export const STREAK_MIN_READINGS = 3;
+export const STREAK_MIN_DURATION_MS = 15 * 60 * 1000;
+// Readings further apart than this break a streak (e.g. camera switched off overnight)
+export const STREAK_MAX_GAP_MS = 2 * 60 * 60 * 1000;
+// Consecutive days a concerning mood must dominate before the report flags it
+export const CONCERNING_DAY_RUN = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Map the free-text mood from analyzeMood onto a fixed set of buckets
+export const classifyMood = (mood: string): MoodKey => {
+  const text = mood.toLowerCase();
+  if (/distress|scared|crying|anxious|panic|afraid/.test(text)) return 'distressed';
+  if (/worr|sad|upset|concern/.test(text)) return 'worried';
+  if (/tired|sleepy|exhaust|fatigue/.test(text)) return 'tired';
+  if (/confus|puzzl/.test(text)) return 'confused';
+  if (/happy|content|joy|cheer|smil/.test(text)) return 'happy';
+  if (/calm|relax|peace/.test(text)) return 'calm';
+  return 'neutral';
+};
+
+export const isConcerningMood = (key: MoodKey) => CONCERNING_MOODS.includes(key);
+
+export const toDateKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const month = `${d.getMonth() + 1}`.padStart(2, '0');
+  const day = `${d.getDate()}`.padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// --- Persistence (moodHistory/{ownerId}) ---
+// Keyed by the Firebase uid, so history follows the account rather than the device,
+// or by the device id while nobody is signed in
+
+export const recordMoodReading = (
+  db: Database,
+  ownerId: string,
+  reading: Omit<MoodReading, 'id'>
+) => {
+  const readingRef = push(ref(db, `moodHistory/${ownerId}`));
+  return set(readingRef, reading);
+};
+
+export const subscribeMoodHistory = (
+  db: Database,
+  ownerId: string,
+  since: number,
+  onReadings: (readings: MoodReading[]) => void
+) => {
+  const historyQuery = query(ref(db, `moodHistory/${ownerId}`), orderByChild('timestamp'), startAt(since));
+
+  return onValue(historyQuery, (snapshot) => {
+    const readings: MoodReading[] = [];
+    snapshot.forEach(child => {
+      readings.push({ id: child.key || '', ...child.val() });
+    });
+    onReadings(readings.sort((a, b) => a.timestamp - b.timestamp));
+  });
+};
+
+// --- Analysis ---
+
+const countMoods = (readings: MoodReading[]) => {
+  const counts: Partial<Record<MoodKey, number>> = {};
+  readings.forEach(r => {
+    const key = classifyMood(r.mood);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+const dominant = (counts: Partial<Record<MoodKey, number>>): MoodKey | null => {
+  let best: MoodKey | null = null;
+  (Object.keys(counts) as MoodKey[]).forEach(key => {
+    if (best === null || (counts[key] || 0) > (counts[best] || 0)) best = key;
+  });
+  return best;
+};
+
+export const summariseDay = (date: string, readings: MoodReading[]): DayMoodSummary => {
+  const counts = countMoods(readings);
+  const concerning = CONCERNING_MOODS.reduce((sum, key) => sum + (counts[key] || 0), 0);
+
+  return {
+    date,
+    readings: readings.length,
+    counts,
+    dominantMood: dominant(counts),
+    concerningShare: readings.length > 0 ? concerning / readings.length : 0
+  };
+};
+
+// Runs of the same concerning mood, ignoring breaks caused by long gaps between readings
+export const findMoodStreaks = (readings: MoodReading[]): MoodStreak[] => {
+  const sorted = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+  const streaks: MoodStreak[] = [];
+  let current: MoodStreak | null = null;
+
+  const close = () => {
+    if (
+      current &&
+      current.readings >= STREAK_MIN_READINGS &&
+      current.end - current.start >= STREAK_MIN_DURATION_MS
+    ) {
+      streaks.push(current);
+    }
+    current = null;
+  };
+
+  sorted.forEach(reading => {
+    const key = classifyMood(reading.mood);
+
+    if (!isConcerningMood(key)) {
+      close();
+      return;
+    }
+
+    if (current && current.mood === key && reading.timestamp - current.end <= STREAK_MAX_GAP_MS) {
+      current.end = reading.timestamp;
+      current.readings += 1;
+    } else {
+      close();
+      current = { mood: key, start: reading.timestamp, end: reading.timestamp, readings: 1 };
+    }
+  });
+  close();
+
+  return streaks;
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+export const describeStreak = (streak: MoodStreak) =>
+  `${MOOD_STYLES[streak.mood].label} for ${formatDuration(streak.end - streak.start)} (${streak.readings} readings)`;
+
+export const buildWeeklyReport = (readings: MoodReading[], now: number = Date.now()): WeeklyWellbeingReport => {
+  const from = startOfDay(now) - 6 * DAY_MS;
+  const inWeek = readings.filter(r => r.timestamp >= from && r.timestamp <= now);
+
+  const days: DayMoodSummary[] = [];
+  for (let i = 0; i < 7; i++) {
+    const dayStart = from + i * DAY_MS;
+    const date = toDateKey(dayStart);
+    days.push(summariseDay(date, inWeek.filter(r => toDateKey(r.timestamp) === date)));
+  }
+
+  // Consecutive days where the same concerning mood was dominant
+  const concerningDays: { mood: MoodKey; dates: string[] }[] = [];
+  let run: { mood: MoodKey; dates: string[] } | null = null;
+  for (const day of days) {
+    const mood = day.dominantMood;
+    if (mood && isConcerningMood(mood) && run && run.mood === mood) {
+      run.dates.push(day.date);
+      continue;
+    }
+    if (run && run.dates.length >= CONCERNING_DAY_RUN) concerningDays.push(run);
+    run = mood && isConcerningMood(mood) ? { mood, dates: [day.date] } : null;
+  }
+  if (run && run.dates.length >= CONCERNING_DAY_RUN) concerningDays.push(run);
+
+  const counts = countMoods(inWeek);
+  const dominantMood = dominant(counts);
+  const streaks = findMoodStreaks(inWeek);
+
+  let headline: string;
+  if (inWeek.length === 0) {
+    headline = 'No mood readings this week. Turn on the mood camera during calls to start tracking.';
+  } else if (concerningDays.length > 0) {
+    const longest = concerningDays.reduce((a, b) => (b.dates.length > a.dates.length ? b : a));
+    headline = `Mostly ${MOOD_STYLES[longest.mood].label.toLowerCase()} for ${longest.dates.length} days in a row. Worth checking in.`;
+  } else if (streaks.length > 0) {
+    headline = `${streaks.length} sustained ${streaks.length === 1 ? 'period' : 'periods'} of low mood this week. Mostly ${dominantMood ? MOOD_STYLES[dominantMood].label.toLowerCase() : 'neutral'} otherwise.`;
+  } else {
+    headline = `Mostly ${dominantMood ? MOOD_STYLES[dominantMood].label.toLowerCase() : 'neutral'} this week. No sustained worries detected.`;
+  }
+
+  return {
+    from,
+    to: now,
+    totalReadings: inWeek.length,
+    days,
+    counts,
+    dominantMood,
+    streaks,
+    concerningDays,
+    headline
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Quest, Waypoint } from '../types';
+import { createNavigationEngine } from './navigationEngine';
+
+// A straight walk east along one street, about 1.1 km
+const START = { lat: 1.35, lng: 103.8 };
+const END = { lat: 1.35, lng: 103.81 };
+const METRES_PER_DEG_LAT = 111320;
+
+const northOf = (point: { lat: number; lng: number }, metres: number) =>
+  ({ lat: point.lat + metres / METRES_PER_DEG_LAT, lng: point.lng });
+
+const checkpoint = (id: string, lng: number, offRouteM: number): Waypoint => ({
+  id,
+  ...northOf({ lat: START.lat, lng }, offRouteM),
+  name: id,
+  completed: false,
+  type: 'checkpoint'
+});
+
+const questWith = (waypoints: Waypoint[]): Quest => ({
+  id: 'quest-1',
+  title: 'Walk',
+  description: '',
+  destination: { ...END, name: 'Hawker centre' },
+  waypoints,
+  reward: '50 KP',
+  distance: 1.1,
+  duration: 15,
+  progress: 0,
+  status: 'active',
+  type: 'exploration',
+  route: { path: [START, END], distanceM: 1100, durationS: 900 }
+});
+
+describe('createNavigationEngine', () => {
+  it('counts a checkpoint at a landmark off the route as reached when standing at it', () => {
+    const landmark = checkpoint('void-deck', 103.805, 60);
+    const update = createNavigationEngine().update(questWith([landmark]), landmark, 0);
+
+    expect(update.reachedWaypointId).toBe('void-deck');
+  });
+
+  it('counts a checkpoint snapped a little off the route as reached when walking past', () => {
+    const quest = questWith([checkpoint('bus-stop', 103.805, 35)]);
+    const update = createNavigationEngine().update(quest, { lat: START.lat, lng: 103.805 }, 0);
+
+    expect(update.reachedWaypointId).toBe('bus-stop');
+  });
+
+  it('does not hold up later checkpoints when one was missed', () => {
+    const quest = questWith([checkpoint('missed', 103.803, 200), checkpoint('next', 103.807, 0)]);
+    const update = createNavigationEngine().update(quest, { lat: START.lat, lng: 103.807 }, 0);
+
+    expect(update.reachedWaypointId).toBe('next');
+  });
+
+  it('arrives at the destination even with checkpoints left', () => {
+    const quest = questWith([checkpoint('missed', 103.805, 200)]);
+    const update = createNavigationEngine().update(quest, END, 0);
+
+    expect(update.arrived).toBe(true);
+  });
+});
@@ -0,0 +1,213 @@
+import { LatLng, NavigationStep, Quest, Waypoint } from '../types';
+import { bearing, distanceAlongRoute, haversineDistance, projectOntoPolyline } from '../utils/geo';
+
+// --- Navigation Engine ---
+// Follows the user through the Directions steps by position. It keeps just
+// enough memory between location updates to advance steps, time off-route
+// spells and avoid repeating announcements; the caller applies the result.
+
+export interface NavigationUpdate {
+  stepIndex: number;
+  // Distance from the walking route, Infinity when the quest has no route geometry
+  distanceFromRouteM: number;
+  reachedWaypointId: string | null;
+  arrived: boolean;
+  // True once per off-route spell, after the user has been off the route long enough;
+  // the spoken guidance back to the route is in announcements
+  offRoute: boolean;
+  announcements: string[];
+}
+
+export interface NavigationEngine {
+  update: (quest: Quest, location: LatLng, now?: number) => NavigationUpdate;
+  // Forget progress, e.g. after re-routing or starting another quest
+  reset: () => void;
+}
+
+export const STEP_END_RADIUS_M = 15;
+export const WAYPOINT_REACHED_M = 50;
+export const WAYPOINT_APPROACH_M = 100;
+export const OFF_ROUTE_DISTANCE_M = 40;
+export const OFF_ROUTE_DURATION_MS = 15000;
+// Warn this far before the alighting stop; MRT stops are further apart than bus stops
+const ALIGHT_PROMPT_M: Record<string, number> = { bus: 400, mrt: 900, transit: 600 };
+// Approach prompts closer together than this are dropped, so Ketua is not talking non-stop
+const MIN_PROMPT_GAP_MS = 8000;
+// How many steps ahead the user may be matched to, e.g. after a short step GPS skipped over
+const STEP_LOOKAHEAD = 3;
+
+// Movement shorter than this is GPS noise, not a direction of travel
+const MIN_HEADING_MOVE_M = 5;
+
+// Which way to turn to get back to the route, relative to the way the user is walking
+export const offRouteGuidance = (heading: number | null, toRoute: number, distanceM: number) => {
+  const metres = `${Math.round(distanceM)} meters`;
+  if (heading === null) {
+    return `Aiyo, you are ${metres} off the route already. Stop first, I find a new way for you.`;
+  }
+  const turn = ((toRoute - heading + 540) % 360) - 180; // -180..180, positive is to the right
+  if (Math.abs(turn) > 120) {
+    return `Aiyo, wrong way lah! Turn back, the route is ${metres} behind you. I find a new way for you.`;
+  }
+  if (Math.abs(turn) > 45) {
+    return `Wait ah, you are ${metres} off the route. Turn ${turn > 0 ? 'right' : 'left'} to get back. I find a new way for you.`;
+  }
+  return `You are ${metres} off the route, but the path is just ahead. Keep going, I find a new way for you.`;
+};
+
+// Still to be reached on the current route
+export const isWaypointPending = (waypoint: Waypoint) => !waypoint.completed && !waypoint.skipped;
+
+const distanceToStep = (step: NavigationStep, location: LatLng) => {
+  if (step.path && step.path.length > 0) {
+    return projectOntoPolyline(location, step.path)?.distance ?? Infinity;
+  }
+  return step.endLocation ? haversineDistance(location, step.endLocation) : Infinity;
+};
+
+export const createNavigationEngine = (): NavigationEngine => {
+  let questId: string | null = null;
+  let announced = new Set<string>();
+  let lastPromptAt = 0;
+  let offRouteSince: number | null = null;
+  let offRouteReported = false;
+  let lastLocation: LatLng | null = null;
+  let heading: number | null = null;
+
+  const reset = () => {
+    announced = new Set();
+    lastPromptAt = 0;
+    offRouteSince = null;
+    offRouteReported = false;
+    lastLocation = null;
+    heading = null;
+  };
+
+  // Step changes always go through; approach prompts respect the gap
+  const announceOnce = (announcements: string[], key: string, text: string, now: number, urgent = false) => {
+    if (announced.has(key)) return;
+    if (!urgent && now - lastPromptAt < MIN_PROMPT_GAP_MS) return;
+    announced.add(key);
+    lastPromptAt = now;
+    announcements.push(text);
+  };
+
+  const advanceStep = (steps: NavigationStep[], current: number, location: LatLng) => {
+    let index = current;
+    // Passed the end of the current step
+    while (index < steps.length - 1 && steps[index].endLocation
+      && haversineDistance(location, steps[index].endLocation!) <= STEP_END_RADIUS_M) {
+      index++;
+    }
+
+    // Or already walking along a later step
+    const currentDistance = distanceToStep(steps[index], location);
+    for (let ahead = index + 1; ahead < Math.min(steps.length, index + 1 + STEP_LOOKAHEAD); ahead++) {
+      const aheadDistance = distanceToStep(steps[ahead], location);
+      if (aheadDistance < STEP_END_RADIUS_M && aheadDistance + 5 < currentDistance) {
+        index = ahead;
+      }
+    }
+    return index;
+  };
+
+  const update = (quest: Quest, location: LatLng, now = Date.now()): NavigationUpdate => {
+    if (quest.id !== questId) {
+      questId = quest.id;
+      reset();
+    }
+
+    const announcements: string[] = [];
+    if (!lastLocation || haversineDistance(lastLocation, location) >= MIN_HEADING_MOVE_M) {
+      if (lastLocation) heading = bearing(lastLocation, location);
+      lastLocation = location;
+    }
+    const steps = quest.navigationSteps || [];
+    const currentIndex = quest.currentStepIndex ?? 0;
+    const routePath = quest.route?.path;
+
+    // --- Steps ---
+    const stepIndex = steps.length > 0 ? advanceStep(steps, currentIndex, location) : currentIndex;
+    if (stepIndex !== currentIndex) {
+      announceOnce(announcements, `step:${stepIndex}`, `Next: ${steps[stepIndex].instruction}`, now, true);
+    }
+
+    // --- Riding a bus or MRT ---
+    const ride = steps[stepIndex]?.transit;
+    if (ride && haversineDistance(location, ride.arrivalLocation) < ALIGHT_PROMPT_M[ride.vehicle]) {
+      announceOnce(
+        announcements,
+        `alight:${stepIndex}`,
+        `Get ready to alight! Next stop is ${ride.arrivalStop}. ${ride.vehicle === 'bus' ? 'Press the bell now.' : 'Stand near the door.'}`,
+        now,
+        true
+      );
+    }
+
+    // --- Off route ---
+    const projection = routePath && routePath.length > 1 ? projectOntoPolyline(location, routePath) : null;
+    const distanceFromRouteM = projection
+      ? projection.distance
+      : steps.length > 0 ? Math.min(...steps.map(step => distanceToStep(step, location))) : Infinity;
+
+    let offRoute = false;
+    if (Number.isFinite(distanceFromRouteM) && distanceFromRouteM > OFF_ROUTE_DISTANCE_M) {
+      offRouteSince = offRouteSince ?? now;
+      if (!offRouteReported && now - offRouteSince >= OFF_ROUTE_DURATION_MS) {
+        offRouteReported = true;
+        offRoute = true;
+        const toRoute = projection ? bearing(location, projection.closest) : null;
+        const guidance = toRoute === null
+          ? offRouteGuidance(null, 0, distanceFromRouteM)
+          : offRouteGuidance(heading, toRoute, distanceFromRouteM);
+        announcements.push(guidance);
+        lastPromptAt = now;
+      }
+    } else {
+      offRouteSince = null;
+      offRouteReported = false;
+    }
+
+    // --- Checkpoints ---
+    // Reached by straight-line distance: landmarks sit a little off the route, and measuring
+    // along the route would count that offset twice. Any checkpoint left counts, so one
+    // missed along the way does not hold up the rest.
+    const reached = quest.waypoints.find(wp => !wp.completed && haversineDistance(location, wp) < WAYPOINT_REACHED_M);
+    const reachedWaypointId: string | null = reached ? reached.id : null;
+    const nextWaypoint = quest.waypoints.find(isWaypointPending);
+    if (nextWaypoint && !reached) {
+      const distance = distanceAlongRoute(location, nextWaypoint, routePath);
+      if (distance < WAYPOINT_APPROACH_M) {
+        announceOnce(
+          announcements,
+          `waypoint:${nextWaypoint.id}`,
+          nextWaypoint.type === 'rest'
+            ? `Rest point ${nextWaypoint.name} coming up in ${Math.round(distance)} meters, can sit down there`
+            : `Checkpoint ${nextWaypoint.name} coming up in ${Math.round(distance)} meters! Keep going!`,
+          now
+        );
+      }
+    }
+
+    // --- Destination ---
+    // Arriving finishes the quest even if a checkpoint was skipped
+    let arrived = false;
+    if (haversineDistance(location, quest.destination) < WAYPOINT_REACHED_M) {
+      arrived = true;
+    } else if (!nextWaypoint) {
+      const destDistance = distanceAlongRoute(location, quest.destination, routePath);
+      if (destDistance < WAYPOINT_APPROACH_M) {
+        announceOnce(
+          announcements,
+          'destination',
+          `Almost there! ${quest.destination.name} is just ${Math.round(destDistance)} meters away!`,
+          now
+        );
+      }
+    }
+
+    return { stepIndex, distanceFromRouteM, reachedWaypointId, arrived, offRoute, announcements };
+  };
+
+  return { update, reset };
+};
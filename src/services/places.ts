@@ -0,0 +1,292 @@
+import {
+  DestinationCandidate, LatLng, NavigationStep, QuestRoute, QuestTravelMode, StepTravelMode, TransitDetails
+} from '../types';
+import { haversineDistance } from '../utils/geo';
+import {
+  MobilityProfile, RouteAccessibility, describeRouteAccessibility, findStairs, scoreRoute
+} from './mobility';
+
+// --- Google Maps Places & Directions (promisified) ---
+// The JS SDK only offers callbacks and never calls back on some network failures,
+// so every request is raced against a timeout.
+
+export const MAPS_TIMEOUT_MS = 8000;
+
+export interface PlaceSummary {
+  name: string;
+  address: string;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => { window.clearTimeout(timer); resolve(value); },
+      error => { window.clearTimeout(timer); reject(error); }
+    );
+  });
+
+export const isMapsLoaded = () => !!(window.google && google.maps && google.maps.places);
+
+// Resolves to an empty list when nothing matches; rejects on quota, network or timeout errors
+export const searchPlaces = (
+  query: string,
+  near: LatLng,
+  options: { type?: string; radius?: number; timeoutMs?: number } = {}
+): Promise<google.maps.places.PlaceResult[]> => {
+  const service = new google.maps.places.PlacesService(document.createElement('div'));
+  const request: google.maps.places.TextSearchRequest = {
+    query,
+    location: new google.maps.LatLng(near.lat, near.lng),
+    radius: options.radius ?? 5000,
+    type: options.type
+  };
+
+  const search = new Promise<google.maps.places.PlaceResult[]>((resolve, reject) => {
+    service.textSearch(request, (results, status) => {
+      if (status === google.maps.places.PlacesServiceStatus.OK && results) {
+        resolve(results.filter(place => place.geometry?.location));
+      } else if (status === google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+        resolve([]);
+      } else {
+        reject(new Error(`Places search failed: ${status}`));
+      }
+    });
+  });
+
+  return withTimeout(search, options.timeoutMs ?? MAPS_TIMEOUT_MS, 'Places search timed out');
+};
+
+// Named places around a point, nearest first is not guaranteed so callers sort by distance
+export const searchNearby = (
+  near: LatLng,
+  radius: number,
+  timeoutMs = MAPS_TIMEOUT_MS
+): Promise<google.maps.places.PlaceResult[]> => {
+  const service = new google.maps.places.PlacesService(document.createElement('div'));
+  const request: google.maps.places.PlaceSearchRequest = {
+    location: new google.maps.LatLng(near.lat, near.lng),
+    radius
+  };
+
+  const search = new Promise<google.maps.places.PlaceResult[]>((resolve, reject) => {
+    service.nearbySearch(request, (results, status) => {
+      if (status === google.maps.places.PlacesServiceStatus.OK && results) {
+        resolve(results.filter(place => place.name && place.geometry?.location));
+      } else if (status === google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+        resolve([]);
+      } else {
+        reject(new Error(`Nearby search failed: ${status}`));
+      }
+    });
+  });
+
+  return withTimeout(search, timeoutMs, 'Nearby search timed out');
+};
+
+export const getDirections = (
+  origin: LatLng,
+  destination: LatLng,
+  options: {
+    mode?: QuestTravelMode;
+    via?: LatLng[];
+    timeoutMs?: number;
+    // Ask for alternative routes so an accessible one can be picked
+    alternatives?: boolean;
+    lessWalking?: boolean;
+  } = {}
+): Promise<google.maps.DirectionsResult> => {
+  const directionsService = new google.maps.DirectionsService();
+  const transit = options.mode === 'transit';
+  const request: google.maps.DirectionsRequest = {
+    origin: new google.maps.LatLng(origin.lat, origin.lng),
+    destination: new google.maps.LatLng(destination.lat, destination.lng),
+    // Transit directions do not support intermediate stops
+    waypoints: transit ? undefined : (options.via || []).map(point => ({
+      location: new google.maps.LatLng(point.lat, point.lng),
+      stopover: true
+    })),
+    travelMode: transit ? google.maps.TravelMode.TRANSIT : google.maps.TravelMode.WALKING,
+    transitOptions: transit ? {
+      modes: [google.maps.TransitMode.BUS, google.maps.TransitMode.SUBWAY, google.maps.TransitMode.RAIL],
+      // Every change of bus is a chance to get lost, unless walking is the harder part
+      routingPreference: options.lessWalking
+        ? google.maps.TransitRoutePreference.LESS_WALKING
+        : google.maps.TransitRoutePreference.FEWER_TRANSFERS
+    } : undefined,
+    // Google only returns alternatives for routes without intermediate stops
+    provideRouteAlternatives: !!options.alternatives && !(options.via && options.via.length > 0),
+    unitSystem: google.maps.UnitSystem.METRIC
+  };
+
+  const route = new Promise<google.maps.DirectionsResult>((resolve, reject) => {
+    directionsService.route(request, (result, status) => {
+      if (status === google.maps.DirectionsStatus.OK && result && result.routes.length > 0) {
+        resolve(result);
+      } else {
+        reject(new Error(`Directions failed: ${status}`));
+      }
+    });
+  });
+
+  return withTimeout(route, options.timeoutMs ?? MAPS_TIMEOUT_MS, 'Directions request timed out');
+};
+
+// Steepest rise over run along a path, from elevation samples roughly every 25 m
+export const getMaxGrade = (path: LatLng[], timeoutMs = MAPS_TIMEOUT_MS): Promise<number> => {
+  const elevation = new google.maps.ElevationService();
+  const length = path.reduce((total, point, i) => (i === 0 ? 0 : total + haversineDistance(path[i - 1], point)), 0);
+  const samples = Math.max(2, Math.min(256, Math.round(length / 25)));
+
+  const request = new Promise<number>((resolve, reject) => {
+    elevation.getElevationAlongPath({ path, samples }, (results, status) => {
+      if (status !== google.maps.ElevationStatus.OK || !results) {
+        reject(new Error(`Elevation failed: ${status}`));
+        return;
+      }
+      let maxGrade = 0;
+      for (let i = 1; i < results.length; i++) {
+        const run = haversineDistance(
+          { lat: results[i - 1].location!.lat(), lng: results[i - 1].location!.lng() },
+          { lat: results[i].location!.lat(), lng: results[i].location!.lng() }
+        );
+        if (run > 0) maxGrade = Math.max(maxGrade, Math.abs(results[i].elevation - results[i - 1].elevation) / run);
+      }
+      resolve(maxGrade);
+    });
+  });
+
+  return withTimeout(request, timeoutMs, 'Elevation request timed out');
+};
+
+// Puts the route easiest for the user's mobility first, so the rest of the app can keep using routes[0]
+export const pickAccessibleRoute = async (
+  result: google.maps.DirectionsResult,
+  profile: MobilityProfile
+): Promise<{ result: google.maps.DirectionsResult; notes: string[] }> => {
+  const assessed = await Promise.all(result.routes.map(async route => {
+    const steps = route.legs.flatMap(leg => leg.steps);
+    const walkingPath = steps
+      .filter(step => step.travel_mode !== google.maps.TravelMode.TRANSIT)
+      .flatMap(step => (step.path || []).map(point => ({ lat: point.lat(), lng: point.lng() })));
+    const accessibility: RouteAccessibility = {
+      stairsSteps: findStairs(steps.map(step => step.instructions.replace(/<[^>]*>/g, ''))),
+      // Slopes are best-effort; a failed lookup just leaves them out of the score
+      maxGrade: walkingPath.length > 1 ? await getMaxGrade(walkingPath, 4000).catch(() => null) : null
+    };
+    const distanceM = route.legs.reduce((total, leg) => total + (leg.distance?.value || 0), 0);
+    return { route, accessibility, score: scoreRoute(distanceM, accessibility, profile) };
+  }));
+
+  assessed.sort((a, b) => a.score - b.score);
+  return {
+    result: { ...result, routes: assessed.map(entry => entry.route) },
+    notes: describeRouteAccessibility(assessed[0].accessibility, profile)
+  };
+};
+
+export const getWalkingDirections = (
+  origin: LatLng,
+  destination: LatLng,
+  options: { via?: LatLng[]; timeoutMs?: number } = {}
+) => getDirections(origin, destination, { ...options, mode: 'walking' });
+
+const RAIL_VEHICLES = ['SUBWAY', 'METRO_RAIL', 'HEAVY_RAIL', 'RAIL', 'COMMUTER_TRAIN', 'MONORAIL', 'TRAM'];
+const BUS_VEHICLES = ['BUS', 'INTERCITY_BUS', 'TROLLEYBUS', 'SHARE_TAXI'];
+
+const toStepTravelMode = (vehicleType: string | undefined): Exclude<StepTravelMode, 'walking'> => {
+  if (vehicleType && RAIL_VEHICLES.includes(vehicleType)) return 'mrt';
+  if (vehicleType && BUS_VEHICLES.includes(vehicleType)) return 'bus';
+  return 'transit';
+};
+
+const toTransitDetails = (details: google.maps.TransitDetails): TransitDetails => ({
+  vehicle: toStepTravelMode(details.line.vehicle?.type),
+  line: details.line.short_name || details.line.name || '',
+  lineName: details.line.name || details.line.short_name || '',
+  headsign: details.headsign || '',
+  departureStop: details.departure_stop.name,
+  arrivalStop: details.arrival_stop.name,
+  departureLocation: { lat: details.departure_stop.location.lat(), lng: details.departure_stop.location.lng() },
+  arrivalLocation: { lat: details.arrival_stop.location.lat(), lng: details.arrival_stop.location.lng() },
+  numStops: details.num_stops
+});
+
+// "bus 851" or "the North East Line train"
+export const transitVehicleLabel = (transit: TransitDetails) =>
+  transit.vehicle === 'bus' ? `bus ${transit.line}` : `the ${transit.lineName || transit.line} train`;
+
+export const transitStopCount = (transit: TransitDetails) =>
+  `${transit.numStops} ${transit.numStops === 1 ? 'stop' : 'stops'}`;
+
+export const describeTransitBoarding = (transit: TransitDetails) =>
+  `Take ${transitVehicleLabel(transit)} at ${transit.departureStop}${transit.headsign ? ` towards ${transit.headsign}` : ''}, alight after ${transitStopCount(transit)} at ${transit.arrivalStop}`;
+
+export const toNavigationSteps = (result: google.maps.DirectionsResult): NavigationStep[] =>
+  result.routes[0].legs.flatMap(leg => leg.steps).map(step => {
+    const transit = step.travel_mode === google.maps.TravelMode.TRANSIT && step.transit
+      ? toTransitDetails(step.transit)
+      : undefined;
+    return {
+      instruction: transit
+        ? describeTransitBoarding(transit)
+        : step.instructions.replace(/<[^>]*>/g, ''), // Remove HTML tags
+      distance: step.distance?.text || '',
+      duration: step.duration?.text || '',
+      distanceM: step.distance?.value || 0,
+      endLocation: { lat: step.end_location.lat(), lng: step.end_location.lng() },
+      path: (step.path || []).map(point => ({ lat: point.lat(), lng: point.lng() })),
+      travelMode: transit ? transit.vehicle : 'walking',
+      ...(transit ? { transit } : {})
+    };
+  });
+
+export const toQuestRoute = (result: google.maps.DirectionsResult): QuestRoute => {
+  const route = result.routes[0];
+  return {
+    path: route.overview_path.map(point => ({ lat: point.lat(), lng: point.lng() })),
+    distanceM: route.legs.reduce((total, leg) => total + (leg.distance?.value || 0), 0),
+    durationS: route.legs.reduce((total, leg) => total + (leg.duration?.value || 0), 0),
+    walkingDistanceM: route.legs
+      .flatMap(leg => leg.steps)
+      .filter(step => step.travel_mode !== google.maps.TravelMode.TRANSIT)
+      .reduce((total, step) => total + (step.distance?.value || 0), 0)
+  };
+};
+
+export const getPlaceLocation = (place: google.maps.places.PlaceResult): LatLng => ({
+  lat: place.geometry?.location?.lat() || 0,
+  lng: place.geometry?.location?.lng() || 0
+});
+
+export const summarisePlace = (place: google.maps.places.PlaceResult): PlaceSummary => ({
+  name: place.name || 'Unknown place',
+  address: place.formatted_address || place.vicinity || ''
+});
+
+export const toDestinationCandidate = (place: google.maps.places.PlaceResult, from: LatLng): DestinationCandidate => {
+  const location = getPlaceLocation(place);
+  return {
+    placeId: place.place_id || `${location.lat},${location.lng}`,
+    ...summarisePlace(place),
+    ...location,
+    // Straight-line; the walking distance is only known once a candidate is picked
+    distanceKm: Math.round(haversineDistance(from, location) / 10) / 100,
+    rating: place.rating,
+    ratingCount: place.user_ratings_total,
+    // open_now is only present when Google has opening hours for the place
+    openNow: place.opening_hours?.open_now,
+    types: place.types || []
+  };
+};
+
+// Rebuilds enough of a PlaceResult for the quest builder from a stored candidate
+export const candidateToPlace = (candidate: DestinationCandidate): google.maps.places.PlaceResult => ({
+  name: candidate.name,
+  place_id: candidate.placeId,
+  formatted_address: candidate.address,
+  geometry: {
+    location: new google.maps.LatLng(candidate.lat, candidate.lng)
+  } as google.maps.places.PlaceGeometry,
+  types: candidate.types
+});
@@ -0,0 +1,142 @@
+import { startOfDay } from './moodHistory';
+
+// --- Kampung Points Ledger ---
+// Points are never edited, only appended as transactions. The balance is always the
+// sum of the ledger. Each transaction id is built from its source and reference, so
+// the same thing (an event, a checkpoint, a check-in) can only earn points once.
+// Daily caps per source stop anyone farming the rest. Spending on rewards is a
+// negative transaction, so the balance stays a plain sum.
+
+export type PointSource =
+  | 'welcome'
+  | 'checkpoint'
+  | 'quest_complete'
+  | 'event_join'
+  | 'event_check_in'
+  | 'waypoint_check_in'
+  | 'quest_check_in'
+  | 'scam_report'
+  | 'redemption';
+
+export interface PointTransaction {
+  id: string;
+  source: PointSource;
+  amount: number;
+  // What earned (or spent) the points, e.g. the event id, `${questId}/${waypointId}` or a voucher code
+  referenceId: string;
+  timestamp: number;
+  description: string;
+}
+
+export interface PointRule {
+  label: string;
+  // Used when the caller does not pass an amount
+  amount: number;
+  // Most points this source can earn in one day; null for no limit
+  dailyCap: number | null;
+}
+
+export const POINT_RULES: Record<PointSource, PointRule> = {
+  welcome: { label: 'Welcome bonus', amount: 150, dailyCap: null },
+  checkpoint: { label: 'Checkpoint reached', amount: 10, dailyCap: 100 },
+  quest_complete: { label: 'Quest completed', amount: 0, dailyCap: 300 },
+  event_join: { label: 'Joined event', amount: 10, dailyCap: 30 },
+  event_check_in: { label: 'Event check-in', amount: 20, dailyCap: 60 },
+  waypoint_check_in: { label: 'Checkpoint photo', amount: 15, dailyCap: 60 },
+  quest_check_in: { label: 'Quest photo', amount: 30, dailyCap: 90 },
+  scam_report: { label: 'Scam reported', amount: 20, dailyCap: 40 },
+  redemption: { label: 'Reward redeemed', amount: 0, dailyCap: null }
+};
+
+export interface AwardRequest {
+  source: PointSource;
+  referenceId: string;
+  description: string;
+  amount?: number;
+}
+
+export type AwardRejection = 'duplicate' | 'daily_cap' | 'nothing_to_award' | 'insufficient_balance';
+
+// transaction is null when nothing was earned, with the reason why
+export interface AwardResult {
+  transaction: PointTransaction | null;
+  reason: AwardRejection | null;
+  // True when the daily cap cut the award short
+  capped: boolean;
+}
+
+// Firebase keys cannot contain . # $ [ ] or /
+export const transactionId = (source: PointSource, referenceId: string) =>
+  `${source}:${referenceId}`.replace(/[.#$[\]/]/g, '_');
+
+export const ledgerBalance = (ledger: PointTransaction[]) =>
+  ledger.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+export const earnedToday = (ledger: PointTransaction[], source: PointSource, now = Date.now()) => {
+  const since = startOfDay(now);
+  return ledger
+    .filter(transaction => transaction.source === source && transaction.timestamp >= since)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+};
+
+// Decides what (if anything) a request earns; the caller appends the transaction
+export const evaluateAward = (ledger: PointTransaction[], request: AwardRequest, now = Date.now()): AwardResult => {
+  const rule = POINT_RULES[request.source];
+  const id = transactionId(request.source, request.referenceId);
+  if (ledger.some(transaction => transaction.id === id)) {
+    return { transaction: null, reason: 'duplicate', capped: false };
+  }
+
+  const requested = Math.max(0, Math.floor(request.amount ?? rule.amount));
+  if (requested === 0) {
+    return { transaction: null, reason: 'nothing_to_award', capped: false };
+  }
+
+  // Award what is left of today's cap rather than nothing, so the last quest of the day still counts
+  const remaining = rule.dailyCap === null ? requested : rule.dailyCap - earnedToday(ledger, request.source, now);
+  const amount = Math.min(requested, remaining);
+  if (amount <= 0) {
+    return { transaction: null, reason: 'daily_cap', capped: true };
+  }
+
+  return {
+    reason: null,
+    capped: amount < requested,
+    transaction: {
+      id,
+      source: request.source,
+      amount,
+      referenceId: request.referenceId,
+      timestamp: now,
+      description: request.description
+    }
+  };
+};
+
+// Spending is never capped, but cannot take the balance below zero
+export const evaluateSpend = (
+  ledger: PointTransaction[],
+  request: { referenceId: string; amount: number; description: string },
+  now = Date.now()
+): AwardResult => {
+  const id = transactionId('redemption', request.referenceId);
+  if (ledger.some(transaction => transaction.id === id)) {
+    return { transaction: null, reason: 'duplicate', capped: false };
+  }
+  if (request.amount > ledgerBalance(ledger)) {
+    return { transaction: null, reason: 'insufficient_balance', capped: false };
+  }
+
+  return {
+    reason: null,
+    capped: false,
+    transaction: {
+      id,
+      source: 'redemption',
+      amount: -Math.abs(request.amount),
+      referenceId: request.referenceId,
+      timestamp: now,
+      description: request.description
+    }
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { Waypoint } from '../types';
+import { skipWaypointsOffRoute } from './questBuilder';
+
+const waypoint = (id: string, lat: number, completed = false): Waypoint =>
+  ({ id, lat, lng: 103.805, name: id, completed, type: 'checkpoint' });
+
+describe('skipWaypointsOffRoute', () => {
+  // New route runs east along lat 1.35
+  const route = { path: [{ lat: 1.35, lng: 103.8 }, { lat: 1.35, lng: 103.81 }], distanceM: 1100, durationS: 900 };
+
+  it('skips checkpoints the new route no longer passes', () => {
+    const [onRoute, offRoute, done] = skipWaypointsOffRoute([
+      waypoint('on-route', 1.35),
+      waypoint('off-route', 1.352),
+      waypoint('done', 1.352, true)
+    ], route);
+
+    expect(onRoute.skipped).toBe(false);
+    expect(offRoute.skipped).toBe(true);
+    expect(done.skipped).toBeUndefined();
+  });
+});
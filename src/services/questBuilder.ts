@@ -0,0 +1,269 @@
+import { LatLng, NavigationStep, Quest, QuestRoute, Waypoint } from '../types';
+import { haversineDistance, pointAlongPolyline, projectOntoPolyline } from '../utils/geo';
+import { MobilityProfile, adjustDurationForMobility, needsStepFreeRoute } from './mobility';
+import { WAYPOINT_REACHED_M } from './navigationEngine';
+import { getDirections, pickAccessibleRoute, searchNearby, toNavigationSteps, toQuestRoute } from './places';
+
+// --- Quest System ---
+
+// Walking pace used when there is no route to take the duration from
+const MINUTES_PER_KM = 15;
+const KP_PER_KM = 50;
+const MAX_WAYPOINTS = 3;
+
+// How far a checkpoint may move off the route to sit at a landmark. Inside the radius the
+// navigation engine counts as reached, with room for GPS error, so walking past still counts
+const LANDMARK_SNAP_RADIUS_M = WAYPOINT_REACHED_M - 15;
+// Kept short because Ketua is waiting on the quest before it can answer
+const LANDMARK_LOOKUP_TIMEOUT_MS = 3000;
+
+// Places people recognise and can take a checkpoint photo at
+const LANDMARK_TYPES = [
+  'bus_station', 'transit_station', 'subway_station', 'park', 'community_center', 'library',
+  'place_of_worship', 'school', 'shopping_mall', 'premise', 'subpremise'
+];
+
+// Places with benches and shade: void decks are matched by name, these by type
+const REST_TYPES = ['park', 'community_center', 'library', 'shopping_mall', 'bus_station', 'place_of_worship'];
+
+export interface QuestBuildOptions {
+  // The Directions route; without it distances and waypoints fall back to the straight line
+  route?: QuestRoute;
+  steps?: NavigationStep[];
+  // Adds rest points and slows the duration down to the user's pace
+  mobility?: MobilityProfile;
+}
+
+export const generateQuestFromDestination = (
+  destination: google.maps.places.PlaceResult,
+  userLocation: LatLng,
+  { route, steps = [], mobility }: QuestBuildOptions = {}
+): Quest => {
+  const destLat = destination.geometry?.location?.lat() || 0;
+  const destLng = destination.geometry?.location?.lng() || 0;
+
+  // Walking distance from the route, or straight-line when directions are not available
+  const distance = (route ? route.distanceM : haversineDistance(userLocation, { lat: destLat, lng: destLng })) / 1000;
+  const baseDuration = route ? Math.round(route.durationS / 60) : Math.round(distance * MINUTES_PER_KM);
+
+  // Rewards are for walking, not for sitting on the bus
+  const transit = steps.some(step => step.transit);
+  const walkedKm = route?.walkingDistanceM !== undefined ? route.walkingDistanceM / 1000 : distance;
+
+  // Generate waypoints along the route
+  const waypointCount = Math.min(MAX_WAYPOINTS, Math.floor(distance / 0.5)); // One waypoint every 500m
+  const waypoints: Waypoint[] = [];
+
+  for (let i = 0; i < waypointCount && !transit; i++) {
+    const ratio = (i + 1) / (waypointCount + 1);
+    // Sample the walking route; only without directions fall back to the straight line
+    const point = route
+      ? pointAlongPolyline(route.path, route.distanceM * ratio)
+      : null;
+    waypoints.push({
+      id: `wp-${i}`,
+      lat: point ? point.lat : userLocation.lat + (destLat - userLocation.lat) * ratio,
+      lng: point ? point.lng : userLocation.lng + (destLng - userLocation.lng) * ratio,
+      name: `Checkpoint ${i + 1}`,
+      completed: false,
+      type: 'checkpoint',
+      description: `Complete this checkpoint to earn bonus rewards!`
+    });
+  }
+
+  const restPoints = route && !transit && mobility?.needsRestStops
+    ? restWaypoints(route, mobility.restIntervalM)
+    : [];
+  const duration = mobility ? adjustDurationForMobility(baseDuration, mobility, restPoints.length) : baseDuration;
+
+  // Determine quest type based on destination
+  let questType: Quest['type'] = 'exploration';
+  const placeTypes = destination.types || [];
+  if (placeTypes.includes('park') || placeTypes.includes('gym')) {
+    questType = 'fitness';
+  } else if (placeTypes.includes('hospital') || placeTypes.includes('police')) {
+    questType = 'emergency';
+  } else if (placeTypes.includes('community_center') || placeTypes.includes('library')) {
+    questType = 'community';
+  }
+
+  return {
+    id: `quest-${Date.now()}`,
+    title: `Journey to ${destination.name}`,
+    description: `Complete this quest to explore ${destination.name} and earn rewards!`,
+    destination: {
+      lat: destLat,
+      lng: destLng,
+      name: destination.name || 'Unknown Destination'
+    },
+    waypoints: transit ? transitWaypoints(steps) : orderAlongRoute([...waypoints, ...restPoints], route),
+    reward: `${Math.floor(walkedKm * KP_PER_KM)} KP`,
+    distance: Math.round(distance * 100) / 100,
+    duration,
+    progress: 0,
+    status: 'available',
+    type: questType,
+    travelMode: transit ? 'transit' : 'walking',
+    ...(route ? { route } : {})
+  };
+};
+
+// A rest point every intervalM along the route, skipping one that would land right at the destination
+export const restWaypoints = (route: QuestRoute, intervalM: number): Waypoint[] => {
+  const waypoints: Waypoint[] = [];
+  for (let along = intervalM; along < route.distanceM - intervalM / 2; along += intervalM) {
+    const point = pointAlongPolyline(route.path, along);
+    if (!point) break;
+    waypoints.push({
+      id: `rest-${waypoints.length}`,
+      ...point,
+      name: `Rest point ${waypoints.length + 1}`,
+      completed: false,
+      type: 'rest',
+      description: 'Find a bench or shade here and take a short rest'
+    });
+  }
+  return waypoints;
+};
+
+// Waypoints in the order the user will walk past them
+const orderAlongRoute = (waypoints: Waypoint[], route?: QuestRoute) => {
+  if (!route) return waypoints;
+  const along = (waypoint: Waypoint) => projectOntoPolyline(waypoint, route.path)?.along ?? 0;
+  return [...waypoints].sort((a, b) => along(a) - along(b));
+};
+
+// Checkpoints at every boarding stop (the first one and each interchange) and the final alighting stop
+export const transitWaypoints = (steps: NavigationStep[]): Waypoint[] => {
+  const rides = steps.filter(step => step.transit).map(step => step.transit!);
+  const waypoints: Waypoint[] = rides.map((ride, index) => ({
+    id: `wp-${index}`,
+    ...ride.departureLocation,
+    name: ride.departureStop,
+    completed: false,
+    type: 'checkpoint' as const,
+    description: index === 0
+      ? `Board ${ride.vehicle === 'bus' ? `bus ${ride.line}` : ride.lineName} here`
+      : `Change to ${ride.vehicle === 'bus' ? `bus ${ride.line}` : ride.lineName} here`
+  }));
+
+  const lastRide = rides[rides.length - 1];
+  if (lastRide) {
+    waypoints.push({
+      id: `wp-${rides.length}`,
+      ...lastRide.arrivalLocation,
+      name: lastRide.arrivalStop,
+      completed: false,
+      type: 'checkpoint',
+      description: 'Alight here and walk the rest of the way'
+    });
+  }
+  return waypoints;
+};
+
+// "Block 456" / "Blk 456A" are HDB blocks; the void deck is where people actually meet
+const HDB_BLOCK_PATTERN = /^(?:blk|block)\s*(\d+[a-z]?)\b/i;
+
+export const landmarkName = (place: google.maps.places.PlaceResult): string => {
+  const name = place.name || '';
+  const block = name.match(HDB_BLOCK_PATTERN);
+  if (block) return `Blk ${block[1].toUpperCase()} void deck`;
+  if (place.types?.includes('bus_station') && !/bus stop/i.test(name)) return `${name} bus stop`;
+  return name;
+};
+
+// HDB blocks have lifts, so a void deck is also a step-free way past stairs
+export const liftNote = (waypoint: Waypoint) => {
+  const block = waypoint.name.match(/^Blk (\S+) void deck$/);
+  return block ? `Got lift at Blk ${block[1]}` : null;
+};
+
+const landmarkRank = (place: google.maps.places.PlaceResult, waypoint: Waypoint) => {
+  if (HDB_BLOCK_PATTERN.test(place.name || '')) return 0;
+  // Rest points want somewhere to sit, not just something to photograph
+  const types = waypoint.type === 'rest' ? REST_TYPES : LANDMARK_TYPES;
+  return place.types?.some(type => types.includes(type)) ? 0 : 1;
+};
+
+const snapToLandmark = async (waypoint: Waypoint, usedNames: Set<string>): Promise<Waypoint> => {
+  const places = await searchNearby(waypoint, LANDMARK_SNAP_RADIUS_M, LANDMARK_LOOKUP_TIMEOUT_MS);
+  const best = places
+    .map(place => ({
+      place,
+      location: { lat: place.geometry!.location!.lat(), lng: place.geometry!.location!.lng() }
+    }))
+    .map(candidate => ({ ...candidate, distance: haversineDistance(waypoint, candidate.location) }))
+    .filter(candidate => candidate.distance <= LANDMARK_SNAP_RADIUS_M && !usedNames.has(landmarkName(candidate.place)))
+    .sort((a, b) => landmarkRank(a.place, waypoint) - landmarkRank(b.place, waypoint) || a.distance - b.distance)[0];
+
+  if (!best) return waypoint;
+
+  const name = landmarkName(best.place);
+  usedNames.add(name);
+  return {
+    ...waypoint,
+    ...best.location,
+    name,
+    description: waypoint.type === 'rest'
+      ? `Sit down and rest at ${name}`
+      : `Take a photo at ${name} to earn bonus rewards!`
+  };
+};
+
+// Moves route-sampled checkpoints and rest points onto nearby named landmarks. Any waypoint whose
+// lookup fails keeps its sampled position and generic name, so this never rejects.
+export const snapWaypointsToLandmarks = async (waypoints: Waypoint[]): Promise<Waypoint[]> => {
+  const usedNames = new Set<string>();
+  const snapped: Waypoint[] = [];
+  // One at a time so two checkpoints never pick the same landmark
+  for (const waypoint of waypoints) {
+    try {
+      snapped.push(await snapToLandmark(waypoint, usedNames));
+    } catch (error) {
+      console.warn('[QUEST] Could not snap checkpoint to a landmark:', error);
+      snapped.push(waypoint);
+    }
+  }
+  return snapped;
+};
+
+// After a reroute, checkpoints the new route no longer passes are skipped rather than left
+// waiting; one the user still reaches counts as usual
+export const skipWaypointsOffRoute = (waypoints: Waypoint[], route?: QuestRoute): Waypoint[] => {
+  if (!route || route.path.length < 2) return waypoints;
+  return waypoints.map(waypoint => {
+    if (waypoint.completed) return waypoint;
+    const offRouteM = projectOntoPolyline(waypoint, route.path)?.distance ?? Infinity;
+    return { ...waypoint, skipped: offRouteM > WAYPOINT_REACHED_M };
+  });
+};
+
+// Only the parts of a quest a reroute replaces, so the caller can merge them into the latest
+// copy rather than overwrite checkpoints reached while directions were loading
+export type QuestReroute = Pick<Quest, 'navigationSteps' | 'currentStepIndex' | 'route' | 'accessibilityNotes'>;
+
+// Fresh directions from where the user is now to the destination. Checkpoints and rewards stay
+// as they were; they are not stopovers, because rest points and checkpoints snapped to landmarks
+// sit off the route and would force detours. With a mobility aid the route is picked the same
+// way as when the quest was planned, so a reroute never swaps a step-free route for stairs.
+export const rerouteQuest = async (quest: Quest, from: LatLng, mobility?: MobilityProfile): Promise<QuestReroute> => {
+  const mode = quest.travelMode || 'walking';
+  const stepFree = !!mobility && needsStepFreeRoute(mobility);
+  let directions = await getDirections(from, quest.destination, {
+    mode,
+    alternatives: stepFree,
+    lessWalking: stepFree
+  });
+  let accessibilityNotes = quest.accessibilityNotes;
+  if (stepFree) {
+    const accessible = await pickAccessibleRoute(directions, mobility);
+    directions = accessible.result;
+    accessibilityNotes = accessible.notes.length > 0 ? accessible.notes : undefined;
+  }
+  return {
+    navigationSteps: toNavigationSteps(directions),
+    currentStepIndex: 0,
+    route: toQuestRoute(directions),
+    accessibilityNotes
+  };
+};
@@ -0,0 +1,206 @@
+import { Database, ref, get, remove, onValue, query, orderByChild, equalTo, runTransaction } from 'firebase/database';
+import { REWARD_CATALOGUE } from '../data/rewardCatalogue';
+
+// --- Rewards Types ---
+
+export type RewardCategory = 'kopi' | 'groceries' | 'classes';
+
+export interface Reward {
+  id: string;
+  name: string;
+  merchant: string;
+  description: string;
+  category: RewardCategory;
+  priceKP: number;
+  initialStock: number;
+  // Last day (YYYY-MM-DD, local time) the reward can be redeemed for a voucher
+  availableUntil: string;
+  voucherValidDays: number;
+}
+
+// Stored at vouchers/{code} so a merchant can look one up from the QR code alone
+export interface Voucher {
+  code: string;
+  // Firebase uid, or the device id when signed out
+  uid: string;
+  rewardId: string;
+  rewardName: string;
+  merchant: string;
+  priceKP: number;
+  issuedAt: number;
+  expiresAt: number;
+  status: 'issued' | 'redeemed';
+  redeemedAt?: number;
+  // Kampung ID of whoever scanned it at the stall
+  redeemedBy?: string;
+}
+
+export type VoucherState = 'valid' | 'redeemed' | 'expired';
+
+export const REWARD_CATEGORY_LABELS: Record<RewardCategory, string> = {
+  kopi: 'Kopi & Food',
+  groceries: 'Groceries',
+  classes: 'Classes'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kampung IDs in QR codes start with "KP-", so vouchers use their own prefix
+export const VOUCHER_QR_PREFIX = 'KPV-';
+
+// Easy to read out over the counter: no 0/O or 1/I
+const VOUCHER_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VOUCHER_CODE_LENGTH = 8;
+// 32^8 codes, so a clash is rare; a few fresh tries are plenty
+const VOUCHER_CODE_ATTEMPTS = 5;
+
+export const voucherQrValue = (voucher: Voucher) => `${VOUCHER_QR_PREFIX}${voucher.code}`;
+
+// Accepts a scanned QR value or a code typed in by hand; null when it cannot be a voucher
+export const parseVoucherCode = (input: string): string | null => {
+  const code = input.trim().toUpperCase().replace(/\s+/g, '').replace(VOUCHER_QR_PREFIX, '');
+  return code.length === VOUCHER_CODE_LENGTH && [...code].every(char => VOUCHER_CODE_ALPHABET.includes(char))
+    ? code
+    : null;
+};
+
+export const rewardAvailableUntil = (reward: Reward) => new Date(`${reward.availableUntil}T23:59:59`).getTime();
+
+export const voucherState = (voucher: Voucher, now = Date.now()): VoucherState => {
+  if (voucher.status === 'redeemed') return 'redeemed';
+  return now > voucher.expiresAt ? 'expired' : 'valid';
+};
+
+const generateVoucherCode = () =>
+  Array.from({ length: VOUCHER_CODE_LENGTH }, () =>
+    VOUCHER_CODE_ALPHABET[Math.floor(Math.random() * VOUCHER_CODE_ALPHABET.length)]
+  ).join('');
+
+// --- Catalogue ---
+
+// Stock left per reward; a reward nobody has redeemed yet has no entry and is at initialStock
+export const subscribeRewardStock = (db: Database, onStock: (stock: Record<string, number>) => void) =>
+  onValue(ref(db, 'rewardStock'), (snapshot) => {
+    const value = snapshot.val() || {};
+    onStock(Object.fromEntries(REWARD_CATALOGUE.map(reward => [reward.id, value[reward.id] ?? reward.initialStock])));
+  });
+
+export const subscribeVouchers = (db: Database, uid: string, onVouchers: (vouchers: Voucher[]) => void) =>
+  onValue(query(ref(db, 'vouchers'), orderByChild('uid'), equalTo(uid)), (snapshot) => {
+    const vouchers: Voucher[] = [];
+    snapshot.forEach(child => {
+      vouchers.push(child.val());
+    });
+    onVouchers(vouchers.sort((a, b) => b.issuedAt - a.issuedAt));
+  });
+
+// --- Redemption ---
+
+// Writes the voucher under a fresh code, in a transaction so it never lands on someone else's
+const createVoucher = async (db: Database, fields: Omit<Voucher, 'code'>): Promise<Voucher> => {
+  for (let attempt = 0; attempt < VOUCHER_CODE_ATTEMPTS; attempt++) {
+    const voucher: Voucher = { ...fields, code: generateVoucherCode() };
+    // Null can just mean the local cache is empty; Firebase retries with the server value
+    const result = await runTransaction(ref(db, `vouchers/${voucher.code}`), (existing: Voucher | null) =>
+      existing === null ? voucher : undefined
+    );
+    if (result.committed) return voucher;
+  }
+  throw new Error('Could not create a voucher, please try again');
+};
+
+const returnStock = (db: Database, reward: Reward) =>
+  runTransaction(ref(db, `rewardStock/${reward.id}`), (current: number | null) => (current ?? reward.initialStock) + 1)
+    .catch(err => console.error('[REWARDS] Failed to return stock:', err));
+
+// Issues a voucher for a reward. `debit` takes the points against the latest ledger once the
+// voucher exists and returns false if it cannot (say a double tap already spent them);
+// the voucher and stock are then given back so nothing is handed out unpaid.
+export const redeemReward = async (
+  db: Database,
+  reward: Reward,
+  uid: string,
+  balance: number,
+  debit: (voucher: Voucher) => boolean,
+  now = Date.now()
+): Promise<Voucher> => {
+  if (balance < reward.priceKP) {
+    throw new Error(`You need ${reward.priceKP - balance} more KP for this one`);
+  }
+  if (now > rewardAvailableUntil(reward)) {
+    throw new Error('This reward has ended');
+  }
+
+  // Take one from stock first, in a transaction, so two people cannot both get the last one
+  const reserved = await runTransaction(ref(db, `rewardStock/${reward.id}`), (current: number | null) => {
+    const left = current ?? reward.initialStock;
+    return left > 0 ? left - 1 : undefined;
+  });
+  if (!reserved.committed) {
+    throw new Error('Sold out already, sorry!');
+  }
+
+  let voucher: Voucher;
+  try {
+    voucher = await createVoucher(db, {
+      uid,
+      rewardId: reward.id,
+      rewardName: reward.name,
+      merchant: reward.merchant,
+      priceKP: reward.priceKP,
+      issuedAt: now,
+      expiresAt: now + reward.voucherValidDays * DAY_MS,
+      status: 'issued'
+    });
+  } catch (error) {
+    // Put the stock back so the failed attempt does not use up a voucher
+    await returnStock(db, reward);
+    throw error;
+  }
+
+  if (!debit(voucher)) {
+    await remove(ref(db, `vouchers/${voucher.code}`))
+      .catch(err => console.error('[REWARDS] Failed to withdraw unpaid voucher:', err));
+    await returnStock(db, reward);
+    throw new Error(`You need ${reward.priceKP} KP for this one`);
+  }
+  return voucher;
+};
+
+// --- Merchant Side ---
+
+export const lookupVoucher = async (db: Database, code: string): Promise<Voucher | null> => {
+  const snapshot = await get(ref(db, `vouchers/${code}`));
+  return snapshot.val();
+};
+
+// Marks a voucher used, in a transaction so scanning it on two phones at once only works once
+export const redeemVoucher = async (
+  db: Database,
+  code: string,
+  merchantId: string,
+  now = Date.now()
+): Promise<Voucher> => {
+  let rejection: VoucherState | null = null;
+
+  const result = await runTransaction(ref(db, `vouchers/${code}`), (voucher: Voucher | null) => {
+    // Null can just mean the local cache is empty; Firebase retries with the server value
+    if (voucher === null) return null;
+    const state = voucherState(voucher, now);
+    if (state !== 'valid') {
+      rejection = state;
+      return undefined;
+    }
+    rejection = null;
+    return { ...voucher, status: 'redeemed', redeemedAt: now, redeemedBy: merchantId };
+  });
+
+  if (!result.committed) {
+    throw new Error(rejection === 'redeemed' ? 'This voucher has already been used' : 'This voucher has expired');
+  }
+  const redeemed: Voucher | null = result.snapshot.val();
+  if (!redeemed) {
+    throw new Error('Voucher not found. Check the code again.');
+  }
+  return redeemed;
+};
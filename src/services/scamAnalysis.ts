@@ -0,0 +1,99 @@
+import { GoogleGenAI, Type } from '@google/genai';
+
+// --- Scam Message / Screenshot Analysis ---
+
+export type ScamVerdict = 'scam' | 'suspicious' | 'safe';
+
+export interface ScamAnalysis {
+  verdict: ScamVerdict;
+  confidence: number; // 0-100
+  summary: string;
+  redFlags: string[];
+  impersonatedEntity: string | null;
+  urgencyTactics: string[];
+  phoneNumbers: string[];
+  recommendedAction: string;
+  singlishExplanation: string;
+  source: 'text' | 'image';
+  analysedAt: number;
+}
+
+export interface ScamAnalysisInput {
+  text?: string;
+  imageBase64?: string; // JPEG, without the data: prefix
+}
+
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+const ANALYSIS_PROMPT = `You are a scam-detection assistant for elderly residents in Singapore and Malaysia.
+Examine the WhatsApp/SMS message or screenshot and decide if it is a scam.
+Look for: impersonation of government agencies (SPF, MOH, CPF, IRAS, ICA, PDRM, LHDN), banks (DBS, OCBC, UOB, Maybank), couriers (SingPost, Ninja Van) or family members;
+urgency and threats; requests for OTPs, passwords, bank transfers, gift cards or app installs; suspicious links; too-good-to-be-true offers.
+If there is nothing scam-like, say so - do not invent red flags.
+Write "singlishExplanation" as 1-2 short, warm sentences an uncle or auntie would understand, in light Singlish.`;
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: ['scam', 'suspicious', 'safe'] },
+    confidence: { type: Type.INTEGER, description: 'Confidence in the verdict, 0-100' },
+    summary: { type: Type.STRING, description: 'One sentence describing what the message is asking for' },
+    redFlags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    impersonatedEntity: { type: Type.STRING, nullable: true, description: 'Organisation or person being impersonated, if any' },
+    urgencyTactics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    phoneNumbers: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Phone numbers that appear in the message' },
+    recommendedAction: { type: Type.STRING },
+    singlishExplanation: { type: Type.STRING }
+  },
+  required: ['verdict', 'confidence', 'summary', 'redFlags', 'urgencyTactics', 'phoneNumbers', 'recommendedAction', 'singlishExplanation']
+};
+
+export const analyseScamMessage = async (
+  ai: GoogleGenAI,
+  input: ScamAnalysisInput
+): Promise<ScamAnalysis> => {
+  const text = input.text?.trim();
+  if (!text && !input.imageBase64) {
+    throw new Error('Nothing to analyse - paste a message or show a screenshot');
+  }
+
+  const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
+    { text: ANALYSIS_PROMPT }
+  ];
+  if (input.imageBase64) {
+    parts.push({ inlineData: { mimeType: 'image/jpeg', data: input.imageBase64 } });
+  }
+  if (text) {
+    parts.push({ text: `Message:\n"""${text}"""` });
+  }
+
+  const response = await ai.models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: [{ role: 'user', parts }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: ANALYSIS_SCHEMA
+    }
+  });
+
+  if (!response.text) {
+    throw new Error('No analysis returned');
+  }
+
+  const parsed = JSON.parse(response.text);
+  console.log(`[SCAM ANALYSIS] Verdict: ${parsed.verdict} (${parsed.confidence}%)`);
+
+  return {
+    verdict: parsed.verdict,
+    confidence: Math.max(0, Math.min(100, Number(parsed.confidence) || 0)),
+    summary: parsed.summary || '',
+    redFlags: parsed.redFlags || [],
+    impersonatedEntity: parsed.impersonatedEntity || null,
+    urgencyTactics: parsed.urgencyTactics || [],
+    phoneNumbers: parsed.phoneNumbers || [],
+    recommendedAction: parsed.recommendedAction || '',
+    singlishExplanation: parsed.singlishExplanation || '',
+    source: input.imageBase64 ? 'image' : 'text',
+    analysedAt: Date.now()
+  };
+};
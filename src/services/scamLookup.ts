@@ -0,0 +1,246 @@
+import { SCAM_REPUTATION_SEED } from '../data/scamReputation';
+
+// --- Scam Lookup Types ---
+
+export type ScamCategory = 'impersonation' | 'investment' | 'job' | 'phishing' | 'loan' | 'other';
+
+export interface NormalisedNumber {
+  input: string;
+  e164: string | null;
+  country: 'SG' | 'MY' | 'other' | 'unknown';
+  type: 'mobile' | 'landline' | 'tollfree' | 'short' | 'unknown';
+  valid: boolean;
+}
+
+export interface ScamReputationEntry {
+  e164: string;
+  category: ScamCategory;
+  label: string;
+  source: 'official' | 'community';
+  reports: number;
+  lastReported: number;
+}
+
+export interface ScamEvidence {
+  source: string;
+  score: number; // 0-100
+  category?: ScamCategory;
+  reasons: string[];
+  reports?: number;
+}
+
+export interface ScamCheckResult {
+  phoneNumber: string;
+  normalised: string | null;
+  country: NormalisedNumber['country'];
+  isSuspicious: boolean;
+  riskScore: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  category: ScamCategory | null;
+  reasons: string[];
+  reportCount: number;
+  message: string;
+}
+
+export interface ScamLookupProvider {
+  name: string;
+  lookup: (number: NormalisedNumber) => Promise<ScamEvidence | null>;
+}
+
+export const SCAM_CATEGORY_LABELS: Record<ScamCategory, string> = {
+  impersonation: 'Government / bank impersonation',
+  investment: 'Investment scam',
+  job: 'Job scam',
+  phishing: 'Phishing link',
+  loan: 'Loan shark',
+  other: 'Other scam'
+};
+
+// Scores at or above this are reported to the user as suspicious
+export const SUSPICIOUS_SCORE = 60;
+const HIGH_RISK_SCORE = 80;
+
+// --- Number Normalisation (Singapore / Malaysia) ---
+
+const SG_EMERGENCY = ['999', '995', '993', '1777'];
+
+const classifySg = (national: string): NormalisedNumber['type'] => {
+  if (/^[89]\d{7}$/.test(national)) return 'mobile';
+  if (/^[36]\d{7}$/.test(national)) return 'landline';
+  if (/^1800\d{7}$/.test(national)) return 'tollfree';
+  return 'unknown';
+};
+
+const classifyMy = (national: string): NormalisedNumber['type'] => {
+  if (/^1\d{8,9}$/.test(national)) return 'mobile';
+  if (/^[3-9]\d{7,8}$/.test(national)) return 'landline';
+  if (/^1[38]00\d{6,7}$/.test(national)) return 'tollfree';
+  return 'unknown';
+};
+
+export const normalisePhoneNumber = (input: string): NormalisedNumber => {
+  const unknown: NormalisedNumber = { input, e164: null, country: 'unknown', type: 'unknown', valid: false };
+
+  // Drop spaces, dashes, dots and brackets; keep a leading +
+  let digits = input.trim().replace(/[\s\-.()]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  if (!/^\+?\d+$/.test(digits)) return unknown;
+
+  if (SG_EMERGENCY.includes(digits)) {
+    return { input, e164: digits, country: 'SG', type: 'short', valid: true };
+  }
+
+  let country: 'SG' | 'MY' | null = null;
+  let national = '';
+
+  if (digits.startsWith('+65')) {
+    country = 'SG';
+    national = digits.slice(3);
+  } else if (digits.startsWith('+60')) {
+    country = 'MY';
+    national = digits.slice(3).replace(/^0/, '');
+  } else if (digits.startsWith('+')) {
+    return { input, e164: digits, country: 'other', type: 'unknown', valid: digits.length >= 8 };
+  } else if (/^0\d{8,10}$/.test(digits)) {
+    // Malaysian numbers are written with a leading trunk 0 (e.g. 012-345 6789)
+    country = 'MY';
+    national = digits.slice(1);
+  } else if (/^65\d{8}$/.test(digits)) {
+    country = 'SG';
+    national = digits.slice(2);
+  } else if (/^60\d{9,10}$/.test(digits)) {
+    country = 'MY';
+    national = digits.slice(2);
+  } else if (/^\d{8}$/.test(digits) || /^1800\d{7}$/.test(digits)) {
+    country = 'SG';
+    national = digits;
+  }
+
+  if (!country) return unknown;
+
+  const type = country === 'SG' ? classifySg(national) : classifyMy(national);
+  return {
+    input,
+    e164: `+${country === 'SG' ? '65' : '60'}${national}`,
+    country,
+    type,
+    valid: type !== 'unknown'
+  };
+};
+
+// --- Providers ---
+
+// Bundled reputation list, matched on the exact normalised number
+export const createReputationProvider = (
+  entries: ScamReputationEntry[] = SCAM_REPUTATION_SEED
+): ScamLookupProvider => {
+  const byNumber = new Map(entries.map(entry => [entry.e164, entry]));
+
+  return {
+    name: 'reputation',
+    lookup: async (number) => {
+      const entry = number.e164 ? byNumber.get(number.e164) : undefined;
+      if (!entry) return null;
+
+      return {
+        source: 'reputation',
+        score: entry.source === 'official' ? 95 : Math.min(90, 50 + entry.reports * 5),
+        category: entry.category,
+        reasons: [`Listed as ${SCAM_CATEGORY_LABELS[entry.category].toLowerCase()}: ${entry.label}`],
+        reports: entry.reports
+      };
+    }
+  };
+};
+
+// Pattern checks that apply even to numbers nobody has reported yet
+export const createHeuristicProvider = (): ScamLookupProvider => ({
+  name: 'heuristics',
+  lookup: async (number) => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (!number.valid) {
+      reasons.push('Number format is not a valid Singapore or Malaysia number');
+      score += 25;
+    }
+    if (number.country === 'other') {
+      reasons.push('Overseas number - scammers often call from abroad');
+      score += 35;
+    }
+    if (number.e164 && /(\d)\1{5,}/.test(number.e164)) {
+      reasons.push('Unusual repeated digits');
+      score += 10;
+    }
+
+    return reasons.length > 0 ? { source: 'heuristics', score, reasons } : null;
+  }
+});
+
+// --- Checker ---
+
+export const createScamChecker = (providers: ScamLookupProvider[]) => {
+  const check = async (rawNumber: string): Promise<ScamCheckResult> => {
+    const number = normalisePhoneNumber(rawNumber);
+
+    if (number.type === 'short') {
+      return {
+        phoneNumber: rawNumber,
+        normalised: number.e164,
+        country: number.country,
+        isSuspicious: false,
+        riskScore: 0,
+        riskLevel: 'low',
+        category: null,
+        reasons: ['Official emergency or hotline short code'],
+        reportCount: 0,
+        message: 'This is an official hotline number.'
+      };
+    }
+
+    const settled = await Promise.allSettled(providers.map(p => p.lookup(number)));
+    const evidence = settled
+      .map((r, i) => {
+        if (r.status === 'rejected') {
+          console.error(`[SCAM LOOKUP] Provider ${providers[i].name} failed:`, r.reason);
+          return null;
+        }
+        return r.value;
+      })
+      .filter((e): e is ScamEvidence => e !== null);
+
+    // The strongest single source sets the score; softer signals add a little on top
+    const sorted = [...evidence].sort((a, b) => b.score - a.score);
+    const top = sorted[0];
+    const riskScore = Math.min(100, (top?.score || 0) + sorted.slice(1).reduce((sum, e) => sum + e.score * 0.2, 0));
+    const rounded = Math.round(riskScore);
+    const category = sorted.find(e => e.category)?.category || null;
+    const isSuspicious = rounded >= SUSPICIOUS_SCORE;
+    const riskLevel = rounded >= HIGH_RISK_SCORE ? 'high' : isSuspicious ? 'medium' : 'low';
+
+    return {
+      phoneNumber: rawNumber,
+      normalised: number.e164,
+      country: number.country,
+      isSuspicious,
+      riskScore: rounded,
+      riskLevel,
+      category,
+      reasons: evidence.flatMap(e => e.reasons),
+      reportCount: evidence.reduce((sum, e) => sum + (e.reports || 0), 0),
+      message: isSuspicious
+        ? `DANGER: Likely ${category ? SCAM_CATEGORY_LABELS[category].toLowerCase() : 'scam'}. Do not share OTPs or transfer money.`
+        : rounded > 0
+          ? 'No reports, but be careful. Never share OTPs or bank details over the phone.'
+          : 'No scam reports for this number.'
+    };
+  };
+
+  return { check };
+};
+
+// Offline providers; the community report provider is added where a database is available
+export const createDefaultScamProviders = (): ScamLookupProvider[] => [
+  createReputationProvider(),
+  createHeuristicProvider()
+];
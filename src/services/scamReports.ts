@@ -0,0 +1,128 @@
+import { Database, ref, set, get, onValue } from 'firebase/database';
+import {
+  ScamCategory,
+  ScamLookupProvider,
+  SCAM_CATEGORY_LABELS,
+  createScamChecker,
+  createDefaultScamProviders,
+  normalisePhoneNumber
+} from './scamLookup';
+
+// --- Community Scam Reports (scamReports/{e164}/{reporterId}) ---
+
+export type ScamChannel = 'call' | 'sms' | 'whatsapp' | 'other';
+
+export interface ScamReport {
+  number: string; // E.164
+  rawNumber: string;
+  description: string;
+  channel: ScamChannel;
+  category: ScamCategory;
+  reporterId: string;
+  timestamp: number;
+}
+
+export interface BlocklistEntry {
+  number: string;
+  category: ScamCategory;
+  reporters: number;
+  lastReported: number;
+  latestDescription: string;
+}
+
+// Distinct reporters needed before the community list flags a number
+export const COMMUNITY_REPORT_THRESHOLD = 3;
+
+export const submitScamReport = async (
+  db: Database,
+  report: Omit<ScamReport, 'number' | 'timestamp'>
+): Promise<ScamReport> => {
+  const number = normalisePhoneNumber(report.rawNumber);
+  if (!number.e164 || number.type === 'short') {
+    throw new Error('Please enter a valid phone number');
+  }
+  if (!report.description.trim()) {
+    throw new Error('Please describe what the caller or message said');
+  }
+
+  const saved: ScamReport = {
+    ...report,
+    description: report.description.trim(),
+    number: number.e164,
+    timestamp: Date.now()
+  };
+
+  // Keyed by reporter so each villager counts once per number, however often they report it
+  await set(ref(db, `scamReports/${number.e164}/${report.reporterId}`), saved);
+
+  console.log(`[SCAM REPORT] ${number.e164} reported as ${report.category}`);
+  return saved;
+};
+
+const summariseReports = (number: string, reports: ScamReport[]): BlocklistEntry => {
+  const categoryCounts = new Map<ScamCategory, number>();
+  reports.forEach(r => categoryCounts.set(r.category, (categoryCounts.get(r.category) || 0) + 1));
+  const category = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'other';
+  const latest = reports.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+
+  return {
+    number,
+    category,
+    reporters: reports.length,
+    lastReported: latest.timestamp,
+    latestDescription: latest.description
+  };
+};
+
+export const createCommunityReportProvider = (
+  db: Database,
+  threshold: number = COMMUNITY_REPORT_THRESHOLD
+): ScamLookupProvider => ({
+  name: 'community',
+  lookup: async (number) => {
+    if (!number.e164) return null;
+
+    const snapshot = await get(ref(db, `scamReports/${number.e164}`));
+    if (!snapshot.exists()) return null;
+
+    const reports = Object.values(snapshot.val() as Record<string, ScamReport>);
+    const summary = summariseReports(number.e164, reports);
+    const label = SCAM_CATEGORY_LABELS[summary.category].toLowerCase();
+
+    if (summary.reporters < threshold) {
+      return {
+        source: 'community',
+        score: 20 + summary.reporters * 10,
+        reasons: [`${summary.reporters} ${summary.reporters === 1 ? 'neighbour has' : 'neighbours have'} reported this as ${label} (not yet confirmed)`],
+        reports: summary.reporters
+      };
+    }
+
+    return {
+      source: 'community',
+      score: Math.min(92, 75 + (summary.reporters - threshold) * 5),
+      category: summary.category,
+      reasons: [`${summary.reporters} neighbours reported this as ${label}: "${summary.latestDescription}"`],
+      reports: summary.reporters
+    };
+  }
+});
+
+export const createCommunityScamChecker = (db: Database) =>
+  createScamChecker([...createDefaultScamProviders(), createCommunityReportProvider(db)]);
+
+// Shared blocklist: every number that has crossed the report threshold
+export const subscribeScamBlocklist = (
+  db: Database,
+  onEntries: (entries: BlocklistEntry[]) => void,
+  threshold: number = COMMUNITY_REPORT_THRESHOLD
+) => {
+  return onValue(ref(db, 'scamReports'), (snapshot) => {
+    const data = (snapshot.val() || {}) as Record<string, Record<string, ScamReport>>;
+    const entries = Object.entries(data)
+      .map(([number, byReporter]) => summariseReports(number, Object.values(byReporter)))
+      .filter(entry => entry.reporters >= threshold)
+      .sort((a, b) => b.lastReported - a.lastReported);
+    onEntries(entries);
+  });
+};
@@ -0,0 +1,68 @@
+import { GoogleGenAI, FunctionDeclaration, Part } from '@google/genai';
+
+// --- Text Chat with Ketua ---
+// Same system instruction and tools as the voice session, over ai.chats so it
+// works without a mic or speaker. Tool calls are looped until Ketua replies in text.
+
+export interface ChatToolResult {
+  name: string;
+  args: Record<string, unknown>;
+  result: object;
+}
+
+export interface ChatReply {
+  text: string;
+  toolResults: ChatToolResult[];
+}
+
+export interface TextChatOptions {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  onToolCall: (name: string, args: Record<string, unknown>) => Promise<object>;
+  model?: string;
+}
+
+export interface TextChat {
+  send: (message: string) => Promise<ChatReply>;
+}
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+// Stops a model that keeps calling tools from looping forever
+const MAX_TOOL_ROUNDS = 5;
+
+const CHAT_INSTRUCTION = `
+You are now chatting by TEXT, not voice. Keep replies short (1-3 sentences), in the same warm Singlish.
+The app shows tool results as cards under your reply, so do not repeat every detail - just summarise.
+There is no camera in text chat, so ignore the mood analysis instructions.`;
+
+export const createTextChat = (ai: GoogleGenAI, options: TextChatOptions): TextChat => {
+  const chat = ai.chats.create({
+    model: options.model || CHAT_MODEL,
+    config: {
+      systemInstruction: options.systemInstruction + CHAT_INSTRUCTION,
+      tools: [{ functionDeclarations: options.tools }]
+    }
+  });
+
+  const send = async (message: string): Promise<ChatReply> => {
+    const toolResults: ChatToolResult[] = [];
+    let response = await chat.sendMessage({ message });
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS && response.functionCalls?.length; round++) {
+      const responses: Part[] = [];
+      for (const call of response.functionCalls) {
+        const name = call.name || '';
+        const args = call.args || {};
+        console.log('[CHAT] Tool call:', name, args);
+        const result = await options.onToolCall(name, args);
+        toolResults.push({ name, args, result });
+        responses.push({ functionResponse: { id: call.id, name, response: { result } } });
+      }
+      response = await chat.sendMessage({ message: responses });
+    }
+
+    return { text: response.text || '', toolResults };
+  };
+
+  return { send };
+};
@@ -0,0 +1,260 @@
+import { Database, ref, set, onValue } from 'firebase/database';
+import { CheckInPhoto, Quest } from '../types';
+import { getLocalStore } from './localStore';
+import { PointTransaction, evaluateAward } from './pointsLedger';
+
+// --- User Data Sync (userData/{uid}) ---
+// Quest history, points and event check-ins, cached in IndexedDB so the app opens with
+// them offline, and synced through Firebase so the home tablet and the phone agree.
+// Each record carries updatedAt and the newer copy wins. Offline writes wait in an
+// outbox (IndexedDB store "pendingWrites") until Firebase reports it is connected.
+// Signed out there is no account to sync, so the data stays in IndexedDB under the device id.
+
+export interface EventCheckIn {
+  eventId: string;
+  checkIn: CheckInPhoto;
+}
+
+export interface UserData {
+  quests: Quest[];
+  activeQuestId: string | null;
+  points: PointTransaction[];
+  joinedEventIds: string[];
+  eventCheckIns: EventCheckIn[];
+  // Badge id -> when it was first earned
+  badges: Record<string, number>;
+}
+
+export interface UserDataSync {
+  saveQuest: (quest: Quest) => void;
+  setActiveQuestId: (questId: string | null) => void;
+  addPoints: (transaction: PointTransaction) => void;
+  setEventJoined: (eventId: string, joined: boolean) => void;
+  addEventCheckIn: (eventId: string, checkIn: CheckInPhoto) => void;
+  recordBadge: (badgeId: string, earnedAt: number) => void;
+  stop: () => void;
+}
+
+type UserCollection = 'quests' | 'points' | 'eventJoins' | 'eventCheckIns' | 'badges' | 'meta';
+
+interface StoredRecord {
+  data: unknown;
+  updatedAt: number;
+}
+
+interface LocalRecord extends StoredRecord {
+  // Firebase uid, or the device id for data kept on this device only
+  uid: string;
+  collection: UserCollection;
+  id: string;
+}
+
+interface PendingWrite {
+  path: string;
+  value: StoredRecord;
+  queuedAt: number;
+}
+
+const COLLECTIONS: UserCollection[] = ['quests', 'points', 'eventJoins', 'eventCheckIns', 'badges', 'meta'];
+
+const recordStore = getLocalStore<LocalRecord>('userRecords');
+const outboxStore = getLocalStore<PendingWrite>('pendingWrites');
+
+// Firebase rejects undefined values anywhere in the tree
+const toFirebaseValue = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Firebase drops empty arrays, so put back the ones the app relies on
+const normaliseQuest = (quest: Quest): Quest => ({
+  ...quest,
+  waypoints: quest.waypoints || [],
+  ...(quest.route ? { route: { ...quest.route, path: quest.route.path || [] } } : {})
+});
+
+// Without a database nothing is synced and the IndexedDB cache is the only copy
+export const createUserDataSync = (
+  db: Database | null,
+  uid: string,
+  onData: (data: UserData) => void
+): UserDataSync => {
+  const records = new Map<string, LocalRecord>();
+  const pathPrefix = `userData/${uid}/`;
+  let stopped = false;
+  let connected = false;
+  let flushing = false;
+  let dirty = false;
+  let remoteLoaded = false;
+
+  const recordsIn = (collection: UserCollection) =>
+    Array.from(records.values()).filter(record => record.collection === collection);
+
+  const currentData = (): UserData => ({
+    quests: recordsIn('quests')
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+      .map(record => record.data as Quest),
+    activeQuestId: (records.get('meta/activeQuestId')?.data as string | null | undefined) ?? null,
+    points: recordsIn('points')
+      .map(record => record.data as PointTransaction)
+      .sort((a, b) => a.timestamp - b.timestamp),
+    joinedEventIds: recordsIn('eventJoins').filter(record => record.data === true).map(record => record.id),
+    eventCheckIns: recordsIn('eventCheckIns').map(record => record.data as EventCheckIn),
+    badges: Object.fromEntries(recordsIn('badges').map(record => [record.id, record.data as number]))
+  });
+
+  const emit = () => {
+    if (!stopped) onData(currentData());
+  };
+
+  // Keeps the newer of two copies; returns whether the incoming one was taken
+  const merge = (incoming: LocalRecord) => {
+    const key = `${incoming.collection}/${incoming.id}`;
+    const existing = records.get(key);
+    if (existing && existing.updatedAt >= incoming.updatedAt) return false;
+    records.set(key, incoming);
+    return true;
+  };
+
+  const flush = async () => {
+    if (!connected || flushing || stopped) return;
+    flushing = true;
+    try {
+      do {
+        dirty = false;
+        const pending = (await outboxStore.getAll()).filter(write => write.path.startsWith(pathPrefix));
+        for (const write of pending) {
+          if (!connected || stopped) return;
+          await set(ref(db, write.path), write.value);
+          // A newer write to the same record may have been queued while this one was in flight
+          const current = await outboxStore.get(write.path);
+          if (current && current.queuedAt === write.queuedAt) {
+            await outboxStore.remove(write.path);
+          }
+        }
+      } while (dirty && connected);
+    } catch (error) {
+      console.warn('[USER DATA] Sync paused, will retry on reconnect:', error);
+    } finally {
+      flushing = false;
+    }
+  };
+
+  const write = (collection: UserCollection, id: string, data: unknown) => {
+    const key = `${collection}/${id}`;
+    const value = toFirebaseValue(data);
+    const existing = records.get(key);
+    if (existing && JSON.stringify(existing.data) === JSON.stringify(value)) return;
+
+    const record: LocalRecord = { uid, collection, id, data: value, updatedAt: Date.now() };
+    records.set(key, record);
+
+    // Queued by record path, so a later write to the same record replaces the earlier one
+    const path = `${pathPrefix}${key}`;
+    Promise.all([
+      recordStore.put(`${uid}/${key}`, record),
+      db && outboxStore.put(path, { path, value: { data: value, updatedAt: record.updatedAt }, queuedAt: record.updatedAt })
+    ])
+      .then(() => {
+        dirty = true;
+        return flush();
+      })
+      .catch(err => console.error('[USER DATA] Failed to save locally:', err));
+  };
+
+  const addPoints = (transaction: PointTransaction) => {
+    // The ledger is append-only; a transaction id is never written twice
+    if (!records.has(`points/${transaction.id}`)) write('points', transaction.id, transaction);
+  };
+
+  const writers: Omit<UserDataSync, 'stop'> = {
+    saveQuest: (quest) => write('quests', quest.id, quest),
+    setActiveQuestId: (questId) => {
+      if (questId === null && !records.has('meta/activeQuestId')) return;
+      write('meta', 'activeQuestId', questId);
+    },
+    addPoints,
+    setEventJoined: (eventId, joined) => {
+      if (!joined && !records.has(`eventJoins/${eventId}`)) return;
+      write('eventJoins', eventId, joined);
+    },
+    addEventCheckIn: (eventId, checkIn) => {
+      if (!records.has(`eventCheckIns/${checkIn.id}`)) write('eventCheckIns', checkIn.id, { eventId, checkIn });
+    },
+    recordBadge: (badgeId, earnedAt) => {
+      // First earned stays first earned
+      if (!records.has(`badges/${badgeId}`)) write('badges', badgeId, earnedAt);
+    }
+  };
+
+  // Everyone used to start on 150 KP. Returns whether it was added now
+  const grantWelcome = () => {
+    const welcome = evaluateAward(currentData().points, {
+      source: 'welcome',
+      referenceId: 'signup',
+      description: 'Welcome to the kampung'
+    });
+    if (welcome.transaction) addPoints(welcome.transaction);
+    return !!welcome.transaction;
+  };
+
+  // Local cache first so the app has its data straight away, even offline.
+  // Kept on this device only, the cache is all there is, so the welcome can be granted once it loads
+  recordStore.getAll()
+    .then(cached => {
+      cached.filter(record => record.uid === uid).forEach(merge);
+      if (!db) grantWelcome();
+      emit();
+      return flush();
+    })
+    .catch(err => {
+      console.error('[USER DATA] Failed to load local cache:', err);
+      if (!db) grantWelcome();
+      emit();
+    });
+
+  if (!db) {
+    return {
+      ...writers,
+      stop: () => {
+        stopped = true;
+      }
+    };
+  }
+
+  const unsubscribeRemote = onValue(ref(db, `userData/${uid}`), (snapshot) => {
+    const remote = snapshot.val() || {};
+    let changed = false;
+    COLLECTIONS.forEach(collection => {
+      Object.entries<StoredRecord>(remote[collection] || {}).forEach(([id, stored]) => {
+        // Firebase drops null, so a cleared value comes back without data
+        const data = collection === 'quests' ? normaliseQuest(stored.data as Quest) : stored.data ?? null;
+        const record: LocalRecord = { uid, collection, id, data, updatedAt: stored.updatedAt || 0 };
+        if (merge(record)) {
+          changed = true;
+          recordStore.put(`${uid}/${collection}/${id}`, record)
+            .catch(err => console.error('[USER DATA] Failed to cache record:', err));
+        }
+      });
+    });
+
+    // Only granted after Firebase has answered, or a new device would grant it again
+    // before seeing the old one
+    if (!remoteLoaded) {
+      remoteLoaded = true;
+      if (grantWelcome()) changed = true;
+    }
+    if (changed) emit();
+  });
+
+  const unsubscribeConnected = onValue(ref(db, '.info/connected'), (snapshot) => {
+    connected = snapshot.val() === true;
+    if (connected) flush();
+  });
+
+  return {
+    ...writers,
+    stop: () => {
+      stopped = true;
+      unsubscribeRemote();
+      unsubscribeConnected();
+    }
+  };
+};
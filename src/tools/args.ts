@@ -0,0 +1,29 @@
+import { RawToolArgs } from './types';
+
+// --- Tool Argument Readers ---
+// The model occasionally sends numbers as strings or leaves out optional fields
+
+export const readString = (args: RawToolArgs, key: string, fallback = ''): string => {
+  const value = args[key];
+  if (typeof value === 'string') return value.trim() || fallback;
+  if (typeof value === 'number') return String(value);
+  return fallback;
+};
+
+export const readOptionalString = (args: RawToolArgs, key: string): string | undefined =>
+  readString(args, key) || undefined;
+
+export const readNumber = (args: RawToolArgs, key: string, fallback = 0): number => {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+};
+
+export const readBoolean = (args: RawToolArgs, key: string): boolean => {
+  const value = args[key];
+  return value === true || value === 'true';
+};
+
+export const readEnum = <T extends string>(args: RawToolArgs, key: string, allowed: readonly T[], fallback: T): T => {
+  const value = args[key];
+  return allowed.includes(value as T) ? (value as T) : fallback;
+};
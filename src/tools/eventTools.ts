@@ -0,0 +1,16 @@
+import { Type } from '@google/genai';
+import { defineTool } from './types';
+
+// --- Community Event Tools ---
+
+export const searchNearbyEvents = defineTool({
+  declaration: {
+    name: "searchNearbyEvents",
+    description: "Search for community events.",
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  parseArgs: () => ({}),
+  handler: async (_args, ctx) => ({ events: ctx.getState().communityEvents })
+});
+
+export const EVENT_TOOLS = [searchNearbyEvents];
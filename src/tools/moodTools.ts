@@ -0,0 +1,64 @@
+import { Type } from '@google/genai';
+import { defineTool } from './types';
+import { readBoolean, readNumber, readString } from './args';
+import { recordMoodReading } from '../services/moodHistory';
+
+// --- Mood Tools ---
+
+export const analyzeMood = defineTool({
+  declaration: {
+    name: "analyzeMood",
+    description: "Update the user's current mood/emotion based on facial expression analysis from video frames. Call this every time you analyze a video frame.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mood: {
+          type: Type.STRING,
+          description: "Brief mood description (2-4 words): e.g., 'Happy & Content', 'Worried', 'Distressed', 'Calm & Relaxed', 'Tired', 'Confused', 'Neutral'"
+        },
+        confidence: {
+          type: Type.NUMBER,
+          description: "Confidence level from 0-100"
+        },
+        shouldRespond: {
+          type: Type.BOOLEAN,
+          description: "True if the mood requires immediate verbal response (distressed, scared, crying)"
+        }
+      },
+      required: ["mood", "confidence"]
+    }
+  },
+  parseArgs: (raw) => ({
+    mood: readString(raw, 'mood', 'Neutral'),
+    confidence: readNumber(raw, 'confidence'),
+    shouldRespond: readBoolean(raw, 'shouldRespond')
+  }),
+  handler: async ({ mood, confidence, shouldRespond }, ctx) => {
+    console.log('[MOOD DETECTION] Received mood analysis:', { mood, confidence, shouldRespond });
+
+    // Update mood display
+    ctx.actions.setMood(mood, confidence);
+
+    // Keep every reading for the wellbeing timeline
+    recordMoodReading(ctx.db, ctx.getState().ownerId, {
+      mood,
+      confidence,
+      shouldRespond,
+      timestamp: Date.now()
+    }).catch(err => console.error('[MOOD] Failed to save reading:', err));
+
+    return {
+      success: true,
+      message: `Mood updated: ${mood}`,
+      needsResponse: shouldRespond,
+      ...(/distress/i.test(mood) ? {
+        suggestion: "Ask gently if they need help. If they do, use triggerDistressAlert and confirm before contacts are alerted."
+      } : {})
+    };
+  },
+  // Reads the camera, and the periodic checks are not part of the conversation
+  voiceOnly: true,
+  silent: true
+});
+
+export const MOOD_TOOLS = [analyzeMood];
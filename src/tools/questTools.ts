@@ -0,0 +1,341 @@
+import { Type } from '@google/genai';
+import { ToolContext, defineTool } from './types';
+import { readEnum, readNumber, readOptionalString, readString } from './args';
+import { DestinationCandidate, NavigationStep, QuestRoute, QuestTravelMode } from '../types';
+import { generateQuestFromDestination, liftNote, snapWaypointsToLandmarks } from '../services/questBuilder';
+import { describeMobilityProfile, needsStepFreeRoute } from '../services/mobility';
+import { isWaypointPending } from '../services/navigationEngine';
+import { distanceAlongRoute } from '../utils/geo';
+import {
+  candidateToPlace, getDirections, isMapsLoaded, pickAccessibleRoute, searchPlaces, toDestinationCandidate, toNavigationSteps, toQuestRoute,
+  transitStopCount, transitVehicleLabel
+} from '../services/places';
+
+// --- Quest & Navigation Tools ---
+
+// Enough to tell places apart by voice without a long list
+const MAX_CANDIDATES = 4;
+// Further than this (straight line) is too far for our users to walk, so take the bus or MRT
+const TRANSIT_MIN_KM = 1.5;
+
+type TravelModeChoice = QuestTravelMode | 'auto';
+const TRAVEL_MODE_CHOICES: TravelModeChoice[] = ['auto', 'walking', 'transit'];
+
+// Shared by the confirm tool and the on-screen picker so both start the same quest
+export const startQuestToCandidate = async (
+  candidate: DestinationCandidate,
+  ctx: ToolContext,
+  travelMode: TravelModeChoice = 'auto'
+): Promise<object> => {
+  const { location, mobilityProfile } = ctx.getState();
+  if (!location) {
+    return { success: false, reason: 'unavailable', message: "Location not available. Please enable location access." };
+  }
+
+  ctx.actions.offerDestinations(null);
+  const stepFree = needsStepFreeRoute(mobilityProfile);
+
+  const mode: QuestTravelMode = travelMode === 'auto'
+    ? (candidate.distanceKm > TRANSIT_MIN_KM ? 'transit' : 'walking')
+    : travelMode;
+
+  let steps: NavigationStep[] = [];
+  let route: QuestRoute | undefined;
+  let accessibilityNotes: string[] = [];
+  // Walking is the fallback when no bus or MRT route is found
+  for (const attempt of mode === 'transit' ? ['transit', 'walking'] as const : ['walking'] as const) {
+    try {
+      let directions = await getDirections(location, candidate, {
+        mode: attempt,
+        alternatives: stepFree,
+        lessWalking: stepFree
+      });
+      if (stepFree) {
+        const accessible = await pickAccessibleRoute(directions, mobilityProfile);
+        directions = accessible.result;
+        accessibilityNotes = accessible.notes;
+      }
+      steps = toNavigationSteps(directions);
+      route = toQuestRoute(directions);
+      break;
+    } catch (error) {
+      console.warn(`[QUEST] ${attempt} directions unavailable:`, error);
+    }
+  }
+
+  const plannedQuest = generateQuestFromDestination(candidateToPlace(candidate), location, {
+    route,
+    steps,
+    mobility: mobilityProfile
+  });
+  const newQuest = {
+    ...plannedQuest,
+    ...(route && plannedQuest.travelMode === 'walking'
+      ? { waypoints: await snapWaypointsToLandmarks(plannedQuest.waypoints) }
+      : {}),
+    ...(accessibilityNotes.length > 0 ? { accessibilityNotes } : {})
+  };
+  const restStops = newQuest.waypoints.filter(wp => wp.type === 'rest').length;
+
+  const questDetails = {
+    destination: candidate.name,
+    travelMode: newQuest.travelMode,
+    address: candidate.address,
+    distance: newQuest.distance,
+    duration: newQuest.duration,
+    reward: newQuest.reward,
+    ...(restStops > 0 ? { restStops } : {}),
+    ...(accessibilityNotes.length > 0 ? { accessibilityNotes } : {})
+  };
+
+  if (steps.length === 0) {
+    // Fallback if directions fail
+    ctx.actions.startQuest({ ...newQuest, status: 'active' });
+    return {
+      success: true,
+      message: `Quest created to ${candidate.name}! Distance: ${newQuest.distance} km. Follow the map lah!`,
+      questDetails
+    };
+  }
+
+  ctx.actions.startQuest({
+    ...newQuest,
+    navigationSteps: steps,
+    currentStepIndex: 0,
+    status: 'active'
+  });
+
+  // Announce first step
+  return {
+    success: true,
+    message: `Okay can! Navigate to ${candidate.name}. First step: ${steps[0].instruction}`,
+    questDetails: {
+      ...questDetails,
+      firstStep: steps[0].instruction,
+      totalSteps: steps.length,
+      ...(newQuest.travelMode === 'transit' ? {
+        rides: steps.filter(step => step.transit).map(step => step.instruction)
+      } : {})
+    }
+  };
+};
+
+export const createQuestToDestination = defineTool({
+  declaration: {
+    name: "createQuestToDestination",
+    description: "Create a quest/navigation to a destination when user mentions wanting to go somewhere. Use this when they say phrases like 'bring me to', 'I want to go to', 'navigate to', 'where is', 'how to get to', etc.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        destinationName: {
+          type: Type.STRING,
+          description: "The name of the destination (e.g., 'kopitiam', 'MRT station', 'hawker center', 'market', etc.)"
+        },
+        destinationType: {
+          type: Type.STRING,
+          description: "Type of place: restaurant, transit_station, shopping_mall, park, hospital, etc."
+        },
+        travelMode: {
+          type: Type.STRING,
+          enum: TRAVEL_MODE_CHOICES,
+          description: "'walking', 'transit' for bus/MRT, or 'auto' (default) to take transit when it is too far to walk"
+        }
+      },
+      required: ["destinationName"]
+    }
+  },
+  parseArgs: (raw) => ({
+    destinationName: readString(raw, 'destinationName'),
+    destinationType: readString(raw, 'destinationType', 'point_of_interest'),
+    travelMode: readEnum(raw, 'travelMode', TRAVEL_MODE_CHOICES, 'auto')
+  }),
+  handler: async ({ destinationName, destinationType, travelMode }, ctx) => {
+    const { location } = ctx.getState();
+    if (!location || !isMapsLoaded()) {
+      return {
+        success: false,
+        reason: 'unavailable',
+        message: "Location not available or Maps not loaded. Please enable location access."
+      };
+    }
+
+    let places: google.maps.places.PlaceResult[];
+    try {
+      places = await searchPlaces(destinationName, location, { type: destinationType });
+    } catch (error) {
+      console.error('[QUEST] Places search failed:', error);
+      return {
+        success: false,
+        reason: 'search_failed',
+        message: "Cannot search for places right now. Maybe the internet is slow - try again in a while."
+      };
+    }
+
+    if (places.length === 0) {
+      return {
+        success: false,
+        reason: 'not_found',
+        message: `Sorry, cannot find ${destinationName}. Can you be more specific?`
+      };
+    }
+
+    const candidates = places.slice(0, MAX_CANDIDATES).map(place => toDestinationCandidate(place, location));
+    if (candidates.length === 1) {
+      return startQuestToCandidate(candidates[0], ctx, travelMode);
+    }
+
+    // Vague names like "kopitiam" match several places; let the user pick instead of guessing
+    ctx.actions.offerDestinations({ query: destinationName, candidates, travelMode, createdAt: Date.now() });
+    return {
+      success: true,
+      status: 'needs_confirmation',
+      candidates: candidates.map((candidate, index) => ({
+        option: index + 1,
+        placeId: candidate.placeId,
+        name: candidate.name,
+        address: candidate.address,
+        distanceKm: candidate.distanceKm,
+        rating: candidate.rating,
+        openNow: candidate.openNow
+      })),
+      message: `Found ${candidates.length} places for ${destinationName}, also showing them on screen. Ask the user which one using the address or a nearby landmark, e.g. "The one at Block 123 or the one near the MRT?". Then call confirmQuestDestination with their choice.`
+    };
+  }
+});
+
+export const confirmQuestDestination = defineTool({
+  declaration: {
+    name: "confirmQuestDestination",
+    description: "Start navigation to the place the user picked after createQuestToDestination offered several candidates.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        option: {
+          type: Type.NUMBER,
+          description: "The option number of the chosen candidate (1 for the first)"
+        },
+        placeId: {
+          type: Type.STRING,
+          description: "The placeId of the chosen candidate, if known"
+        }
+      }
+    }
+  },
+  parseArgs: (raw) => ({
+    option: readNumber(raw, 'option'),
+    placeId: readOptionalString(raw, 'placeId')
+  }),
+  handler: async ({ option, placeId }, ctx) => {
+    const choice = ctx.getState().destinationChoice;
+    if (!choice) {
+      return {
+        success: false,
+        message: "No places waiting for confirmation. Call createQuestToDestination first."
+      };
+    }
+
+    const candidate = (placeId && choice.candidates.find(c => c.placeId === placeId))
+      || choice.candidates[option - 1];
+    if (!candidate) {
+      return {
+        success: false,
+        message: `Not one of the options. Ask the user to pick 1 to ${choice.candidates.length}.`
+      };
+    }
+
+    return startQuestToCandidate(candidate, ctx, choice.travelMode);
+  }
+});
+
+export const getActiveQuestStatus = defineTool({
+  declaration: {
+    name: "getActiveQuestStatus",
+    description: "Get the status of the active quest including progress, current waypoint, and distance remaining.",
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  parseArgs: () => ({}),
+  handler: async (_args, ctx) => {
+    const { activeQuest, location, mobilityProfile } = ctx.getState();
+    if (!activeQuest) {
+      return {
+        hasActiveQuest: false,
+        message: "No active quest. Ask me to bring you somewhere!"
+      };
+    }
+
+    const completedWaypoints = activeQuest.waypoints.filter(wp => wp.completed).length;
+    const nextWaypoint = activeQuest.waypoints.find(isWaypointPending);
+    const currentNav = activeQuest.navigationSteps && activeQuest.currentStepIndex !== undefined
+      ? activeQuest.navigationSteps[activeQuest.currentStepIndex]
+      : null;
+    const remaining = activeQuest.waypoints.filter(isWaypointPending);
+    const nextRestPoint = remaining.find(wp => wp.type === 'rest');
+    // Stairs and slopes from planning, then the lifts still ahead so Ketua can say "got lift at Blk 5"
+    const accessibilityNotes = needsStepFreeRoute(mobilityProfile)
+      ? [
+        ...(activeQuest.accessibilityNotes || []),
+        ...remaining.map(liftNote).filter((note): note is string => note !== null)
+      ]
+      : [];
+
+    return {
+      hasActiveQuest: true,
+      questName: activeQuest.title,
+      destination: activeQuest.destination.name,
+      progress: activeQuest.progress,
+      completedCheckpoints: completedWaypoints,
+      currentNavigationStep: currentNav ? currentNav.instruction : 'Follow the map',
+      totalCheckpoints: activeQuest.waypoints.filter(wp => wp.completed || !wp.skipped).length,
+      nextCheckpoint: nextWaypoint ? nextWaypoint.name : "Final destination",
+      // Kilometres left along the route from where the user is now
+      distanceRemaining: location
+        ? Math.round(distanceAlongRoute(location, activeQuest.destination, activeQuest.route?.path) / 10) / 100
+        : activeQuest.distance * (1 - activeQuest.progress / 100),
+      reward: activeQuest.reward,
+      mobility: describeMobilityProfile(mobilityProfile),
+      ...(nextRestPoint ? { nextRestPoint: nextRestPoint.name } : {}),
+      ...(accessibilityNotes.length > 0 ? { accessibilityNotes } : {})
+    };
+  }
+});
+
+export const getNextNavigationStep = defineTool({
+  declaration: {
+    name: "getNextNavigationStep",
+    description: "Get the current navigation instruction (read out spokenInstruction) when user asks 'where do I go?', 'what's next?', 'which way?', or similar navigation questions during an active quest.",
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  parseArgs: () => ({}),
+  handler: async (_args, ctx) => {
+    const { activeQuest } = ctx.getState();
+    if (!activeQuest || !activeQuest.navigationSteps || activeQuest.currentStepIndex === undefined) {
+      return {
+        success: false,
+        message: "No active navigation. Create a quest first lah!"
+      };
+    }
+
+    const currentStep = activeQuest.navigationSteps[activeQuest.currentStepIndex];
+    const nextStep = activeQuest.navigationSteps[activeQuest.currentStepIndex + 1];
+    // On a ride the user is at (or walking to) the stop, so say it the way a bus captain would
+    const spokenInstruction = currentStep.transit
+      ? `Take ${transitVehicleLabel(currentStep.transit)} at the next stop, alight after ${transitStopCount(currentStep.transit)} at ${currentStep.transit.arrivalStop}`
+      : `${currentStep.instruction}${nextStep?.transit ? `. After that, ${nextStep.instruction}` : ''}`;
+
+    return {
+      success: true,
+      currentStep: currentStep.instruction,
+      spokenInstruction,
+      travelMode: currentStep.travelMode || 'walking',
+      ...(currentStep.transit ? { transit: currentStep.transit } : {}),
+      distance: currentStep.distance,
+      duration: currentStep.duration,
+      stepNumber: activeQuest.currentStepIndex + 1,
+      totalSteps: activeQuest.navigationSteps.length,
+      stepsRemaining: activeQuest.navigationSteps.length - activeQuest.currentStepIndex - 1,
+      destination: activeQuest.destination.name
+    };
+  }
+});
+
+export const QUEST_TOOLS = [createQuestToDestination, confirmQuestDestination, getActiveQuestStatus, getNextNavigationStep];
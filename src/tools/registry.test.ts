@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { createToolRegistry, respondToToolCalls } from './registry';
+import { readBoolean, readEnum, readNumber, readString } from './args';
+import { getActiveQuestStatus } from './questTools';
+import { KetuaAppState, ToolContext, defineTool } from './types';
+import { DEFAULT_MOBILITY_PROFILE } from '../services/mobility';
+import { Quest } from '../types';
+
+const echoTool = defineTool({
+  declaration: {
+    name: 'echo',
+    description: 'Returns its arguments',
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  parseArgs: (raw) => ({
+    text: readString(raw, 'text', 'hello'),
+    count: readNumber(raw, 'count', 1),
+    loud: readBoolean(raw, 'loud'),
+    tone: readEnum(raw, 'tone', ['calm', 'cheerful'] as const, 'calm')
+  }),
+  handler: async (args) => ({ success: true, ...args })
+});
+
+const failingTool = defineTool({
+  declaration: { name: 'explode', description: 'Always fails' },
+  parseArgs: () => ({}),
+  handler: async () => {
+    throw new Error('Kaboom');
+  }
+});
+
+const ctx = {} as ToolContext;
+
+const fakeSession = () => ({ sendToolResponse: vi.fn() });
+
+describe('createToolRegistry', () => {
+  it('rejects duplicate tool names', () => {
+    expect(() => createToolRegistry([echoTool, echoTool])).toThrow('Duplicate tool names');
+  });
+});
+
+describe('respondToToolCalls', () => {
+  const registry = createToolRegistry([echoTool, failingTool]);
+
+  it('answers every call in one response', async () => {
+    const session = fakeSession();
+    await respondToToolCalls(session, [
+      { id: 'a', name: 'echo', args: { text: 'hi' } },
+      { id: 'b', name: 'echo', args: {} }
+    ], registry, ctx);
+
+    expect(session.sendToolResponse).toHaveBeenCalledTimes(1);
+    const [{ functionResponses }] = session.sendToolResponse.mock.calls[0];
+    expect(functionResponses.map((response: { id: string }) => response.id)).toEqual(['a', 'b']);
+    expect(functionResponses[0].response.result).toMatchObject({ success: true, text: 'hi' });
+  });
+
+  it('reports an unknown tool instead of throwing', async () => {
+    const session = fakeSession();
+    const [response] = await respondToToolCalls(session, [{ id: 'x', name: 'noSuchTool', args: {} }], registry, ctx);
+
+    expect(response).toEqual({
+      id: 'x',
+      name: 'noSuchTool',
+      response: { result: { success: false, message: 'Unknown tool: noSuchTool' } }
+    });
+    expect(session.sendToolResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns a throwing handler into a failed result', async () => {
+    const session = fakeSession();
+    const [response] = await respondToToolCalls(session, [{ id: 'y', name: 'explode' }], registry, ctx);
+
+    expect(response.response).toEqual({ result: { success: false, message: 'Kaboom' } });
+    expect(session.sendToolResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing when there are no calls', async () => {
+    const session = fakeSession();
+    await respondToToolCalls(session, [], registry, ctx);
+
+    expect(session.sendToolResponse).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseArgs', () => {
+  const registry = createToolRegistry([echoTool]);
+
+  it('fills in defaults for missing args', async () => {
+    expect(await registry.run('echo', undefined, ctx)).toEqual({
+      success: true, text: 'hello', count: 1, loud: false, tone: 'calm'
+    });
+  });
+
+  it('coerces the loosely typed values the model sends', async () => {
+    expect(await registry.run('echo', { text: 42, count: '3', loud: 'true', tone: 'cheerful' }, ctx)).toEqual({
+      success: true, text: '42', count: 3, loud: true, tone: 'cheerful'
+    });
+  });
+
+  it('falls back on values it cannot use', async () => {
+    expect(await registry.run('echo', { text: '   ', count: 'many', loud: 'yes', tone: 'angry' }, ctx)).toEqual({
+      success: true, text: 'hello', count: 1, loud: false, tone: 'calm'
+    });
+  });
+});
+
+describe('tools reading app state', () => {
+  const registry = createToolRegistry([getActiveQuestStatus]);
+
+  const quest: Quest = {
+    id: 'quest-1',
+    title: 'Journey to Tampines Hub',
+    description: '',
+    destination: { lat: 1.353, lng: 103.94, name: 'Tampines Hub' },
+    waypoints: [],
+    reward: '50 KP',
+    distance: 1,
+    duration: 15,
+    progress: 40,
+    status: 'active',
+    type: 'community'
+  };
+
+  it('sees state that changed after the session connected', async () => {
+    let state: KetuaAppState = {
+      userId: 'KP-TEST',
+      ownerId: 'KP-TEST',
+      location: null,
+      activeQuest: null,
+      destinationChoice: null,
+      communityEvents: [],
+      currentMood: 'Neutral',
+      moodConfidence: 0,
+      sosIncident: null,
+      mobilityProfile: DEFAULT_MOBILITY_PROFILE
+    };
+    const liveCtx = { getState: () => state } as ToolContext;
+    const session = fakeSession();
+
+    const [before] = await respondToToolCalls(session, [{ id: 'a', name: 'getActiveQuestStatus' }], registry, liveCtx);
+    expect(before.response.result).toMatchObject({ hasActiveQuest: false });
+
+    state = { ...state, activeQuest: quest };
+    const [after] = await respondToToolCalls(session, [{ id: 'b', name: 'getActiveQuestStatus' }], registry, liveCtx);
+    expect(after.response.result).toMatchObject({
+      hasActiveQuest: true,
+      destination: 'Tampines Hub',
+      progress: 40
+    });
+    expect(session.sendToolResponse).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,76 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Session } from '@google/genai';
+import { KetuaTool, RawToolArgs, ToolContext } from './types';
+import { EVENT_TOOLS } from './eventTools';
+import { SCAM_TOOLS } from './scamTools';
+import { QUEST_TOOLS } from './questTools';
+import { MOOD_TOOLS } from './moodTools';
+import { SOS_TOOLS } from './sosTools';
+
+// --- Ketua Tool Registry ---
+// One place to declare and dispatch the tools shared by the voice session and text chat
+
+export interface ToolRegistry {
+  declarations: (options?: { includeVoiceOnly?: boolean }) => FunctionDeclaration[];
+  get: (name: string) => KetuaTool | undefined;
+  isSilent: (name: string) => boolean;
+  // Never throws: failures come back as a result Ketua can explain to the user
+  run: (name: string, args: RawToolArgs | undefined, ctx: ToolContext) => Promise<object>;
+}
+
+export const KETUA_TOOLS: KetuaTool[] = [
+  ...EVENT_TOOLS,
+  ...SCAM_TOOLS,
+  ...QUEST_TOOLS,
+  ...MOOD_TOOLS,
+  ...SOS_TOOLS
+];
+
+export const createToolRegistry = (tools: KetuaTool[]): ToolRegistry => {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+  if (byName.size !== tools.length) {
+    throw new Error('Duplicate tool names in registry');
+  }
+
+  const run = async (name: string, args: RawToolArgs | undefined, ctx: ToolContext) => {
+    const tool = byName.get(name);
+    if (!tool) {
+      console.warn('[TOOLS] Unknown tool:', name);
+      return { success: false, message: `Unknown tool: ${name}` };
+    }
+    try {
+      return await tool.run(args || {}, ctx);
+    } catch (error) {
+      console.error(`[TOOLS] ${name} failed:`, error);
+      return { success: false, message: error instanceof Error ? error.message : `${name} failed` };
+    }
+  };
+
+  return {
+    declarations: ({ includeVoiceOnly = true } = {}) =>
+      tools.filter(tool => includeVoiceOnly || !tool.voiceOnly).map(tool => tool.declaration),
+    get: (name) => byName.get(name),
+    isSilent: (name) => !!byName.get(name)?.silent,
+    run
+  };
+};
+
+// Runs a Live API toolCall message and answers every call in one response.
+// Takes just the session's sendToolResponse so it can be driven by a fake session.
+export const respondToToolCalls = async (
+  session: Pick<Session, 'sendToolResponse'>,
+  calls: FunctionCall[],
+  registry: ToolRegistry,
+  ctx: ToolContext
+) => {
+  const functionResponses: FunctionResponse[] = [];
+  for (const call of calls) {
+    const result = await registry.run(call.name || '', call.args, ctx);
+    functionResponses.push({ id: call.id, name: call.name, response: { result } });
+  }
+  if (functionResponses.length > 0) {
+    session.sendToolResponse({ functionResponses });
+  }
+  return functionResponses;
+};
+
+export const ketuaTools = createToolRegistry(KETUA_TOOLS);
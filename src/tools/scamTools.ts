@@ -0,0 +1,130 @@
+import { Type } from '@google/genai';
+import { defineTool } from './types';
+import { readBoolean, readEnum, readOptionalString, readString } from './args';
+import { ScamCategory } from '../services/scamLookup';
+import { ScamChannel, submitScamReport } from '../services/scamReports';
+import { analyseScamMessage as runScamAnalysis } from '../services/scamAnalysis';
+
+// --- Scam Shield Tools ---
+
+const SCAM_CHANNELS: ScamChannel[] = ['call', 'sms', 'whatsapp', 'other'];
+const SCAM_CATEGORIES: ScamCategory[] = ['impersonation', 'investment', 'job', 'phishing', 'loan', 'other'];
+
+export const checkSuspiciousNumber = defineTool({
+  declaration: {
+    name: "checkSuspiciousNumber",
+    description: "Check a Singapore or Malaysia phone number against scam reports. Returns a risk score (0-100), scam category and the reasons.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        phoneNumber: {
+          type: Type.STRING,
+          description: "The phone number exactly as the user said it, e.g. '+65 9123 4567' or '012-345 6789'"
+        }
+      },
+      required: ["phoneNumber"]
+    }
+  },
+  parseArgs: (raw) => ({ phoneNumber: readString(raw, 'phoneNumber') }),
+  handler: async ({ phoneNumber }, ctx) => {
+    try {
+      return await ctx.scamChecker.check(phoneNumber);
+    } catch (error) {
+      console.error('[SCAM CHECK] Lookup failed:', error);
+      return { isSuspicious: false, message: "Cannot check this number right now. Be careful and never share your OTP." };
+    }
+  }
+});
+
+export const reportScamNumber = defineTool({
+  declaration: {
+    name: "reportScamNumber",
+    description: "Report a phone number that scammed or tried to scam the user. Adds it to the kampung's shared scam reports.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        phoneNumber: {
+          type: Type.STRING,
+          description: "The phone number exactly as the user said it"
+        },
+        description: {
+          type: Type.STRING,
+          description: "Short summary of what the caller or message said, e.g. 'Claimed to be from DBS and asked for OTP'"
+        },
+        channel: {
+          type: Type.STRING,
+          enum: SCAM_CHANNELS,
+          description: "How the scammer contacted them"
+        },
+        category: {
+          type: Type.STRING,
+          enum: SCAM_CATEGORIES,
+          description: "Best guess at the type of scam"
+        }
+      },
+      required: ["phoneNumber", "description"]
+    }
+  },
+  parseArgs: (raw) => ({
+    phoneNumber: readString(raw, 'phoneNumber'),
+    description: readString(raw, 'description'),
+    channel: readEnum(raw, 'channel', SCAM_CHANNELS, 'other'),
+    category: readEnum(raw, 'category', SCAM_CATEGORIES, 'other')
+  }),
+  handler: async (args, ctx) => {
+    try {
+      const report = await submitScamReport(ctx.db, {
+        rawNumber: args.phoneNumber,
+        description: args.description,
+        channel: args.channel,
+        category: args.category,
+        reporterId: ctx.getState().userId
+      });
+      ctx.actions.awardPoints({ source: 'scam_report', referenceId: report.number, description: `Reported ${report.number}` });
+      return { success: true, number: report.number, message: "Reported. Thank you for warning the kampung." };
+    } catch (error) {
+      console.error('[SCAM REPORT] Failed:', error);
+      return { success: false, message: error instanceof Error ? error.message : "Could not send the report" };
+    }
+  }
+});
+
+export const analyseScamMessage = defineTool({
+  declaration: {
+    name: "analyseScamMessage",
+    description: "Analyse a WhatsApp/SMS message or a screenshot for scam signs. Returns a verdict, red flags, the impersonated organisation, pressure tactics and what the user should do.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        messageText: {
+          type: Type.STRING,
+          description: "The message text as the user read it out, if any"
+        },
+        useCamera: {
+          type: Type.BOOLEAN,
+          description: "True to analyse what the user is holding up to the camera (e.g. their phone screen)"
+        }
+      }
+    }
+  },
+  parseArgs: (raw) => ({
+    messageText: readOptionalString(raw, 'messageText'),
+    useCamera: readBoolean(raw, 'useCamera')
+  }),
+  handler: async ({ messageText, useCamera }, ctx) => {
+    try {
+      const analysis = await runScamAnalysis(ctx.ai, {
+        text: messageText,
+        imageBase64: useCamera ? ctx.actions.captureCameraFrame() : undefined
+      });
+      ctx.actions.showScamAnalysis(analysis);
+      const { source, analysedAt, ...summary } = analysis;
+      return summary;
+    } catch (error) {
+      console.error('[SCAM ANALYSIS] Failed:', error);
+      return { success: false, message: error instanceof Error ? error.message : "Could not analyse the message" };
+    }
+  }
+});
+
+export const SCAM_TOOLS = [checkSuspiciousNumber, reportScamNumber, analyseScamMessage];
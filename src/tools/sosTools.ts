@@ -0,0 +1,103 @@
+import { Type } from '@google/genai';
+import { defineTool } from './types';
+import { readBoolean, readEnum, readOptionalString, readString } from './args';
+import { SOS_COUNTDOWN_SECONDS, SosSeverity } from '../services/distress';
+
+// --- SOS Tools ---
+
+const SOS_SEVERITIES: SosSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export const triggerDistressAlert = defineTool({
+  declaration: {
+    name: "triggerDistressAlert",
+    description: "Raise an SOS alert to the user's trusted contacts when they are in an emergency. The first call starts a countdown and you must ask the user to confirm. Call again with confirmed=true once they say yes to alert contacts immediately.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        severity: {
+          type: Type.STRING,
+          enum: SOS_SEVERITIES,
+          description: "How serious the emergency sounds: low, medium, high or critical"
+        },
+        reason: {
+          type: Type.STRING,
+          description: "Short reason for the alert (e.g., 'Fell down at home', 'Chest pain')"
+        },
+        confirmed: {
+          type: Type.BOOLEAN,
+          description: "True only after the user has confirmed they want their contacts alerted"
+        }
+      },
+      required: ["severity", "reason"]
+    }
+  },
+  parseArgs: (raw) => ({
+    severity: readEnum(raw, 'severity', SOS_SEVERITIES, 'high'),
+    reason: readString(raw, 'reason', "Emergency reported by voice"),
+    confirmed: readBoolean(raw, 'confirmed')
+  }),
+  handler: async ({ severity, reason, confirmed }, ctx) => {
+    const incident = ctx.getState().sosIncident;
+    const inProgress = !!incident && (incident.status === 'countdown' || incident.status === 'active');
+
+    if (incident && incident.status === 'active') {
+      return {
+        success: true,
+        status: 'already_active',
+        contactsAlerted: incident.notifiedContacts.length,
+        message: "Contacts already alerted. Stay with the user and reassure them help is coming."
+      };
+    }
+
+    // First call only starts the countdown; contacts are alerted once confirmed or when it runs out
+    if (!inProgress) {
+      ctx.actions.sos.trigger('voice', { severity, reason });
+    }
+    if (confirmed) {
+      ctx.actions.sos.sendNow();
+      return {
+        success: true,
+        status: 'alerting',
+        message: "User confirmed. Alerting their contacts and calling the first one online now. Tell them help is on the way."
+      };
+    }
+    return {
+      success: true,
+      status: 'awaiting_confirmation',
+      countdownSeconds: SOS_COUNTDOWN_SECONDS,
+      message: `Countdown started. Ask the user to confirm they want their family alerted. If yes, call triggerDistressAlert with confirmed=true. If they are okay, call cancelDistressAlert. Contacts will be alerted automatically in ${SOS_COUNTDOWN_SECONDS} seconds if nobody cancels.`
+    };
+  }
+});
+
+export const cancelDistressAlert = defineTool({
+  declaration: {
+    name: "cancelDistressAlert",
+    description: "Cancel an SOS alert when the user says they are okay or it was a false alarm.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        reason: {
+          type: Type.STRING,
+          description: "Why the alert is being cancelled (e.g., 'User said they are okay')"
+        }
+      }
+    }
+  },
+  parseArgs: (raw) => ({ reason: readOptionalString(raw, 'reason') }),
+  handler: async (_args, ctx) => {
+    const incident = ctx.getState().sosIncident;
+
+    if (incident && incident.status === 'countdown') {
+      ctx.actions.sos.cancel();
+      return { success: true, status: 'cancelled', message: "SOS cancelled before anyone was alerted." };
+    }
+    if (incident && incident.status === 'active') {
+      ctx.actions.sos.resolve();
+      return { success: true, status: 'resolved', message: "Contacts were already alerted. Marked the user as safe so they know." };
+    }
+    return { success: false, message: "No SOS alert in progress." };
+  }
+});
+
+export const SOS_TOOLS = [triggerDistressAlert, cancelDistressAlert];
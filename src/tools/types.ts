@@ -0,0 +1,81 @@
+import { FunctionDeclaration, GoogleGenAI } from '@google/genai';
+import { Database } from 'firebase/database';
+import { CommunityEvent, DestinationChoice, LatLng, Quest } from '../types';
+import { SosIncident, SosSeverity, SosTrigger } from '../services/distress';
+import { createScamChecker } from '../services/scamLookup';
+import { ScamAnalysis } from '../services/scamAnalysis';
+import { MobilityProfile } from '../services/mobility';
+import { AwardRequest } from '../services/pointsLedger';
+
+// --- Ketua Tool Types ---
+
+// Snapshot of the app state a tool reads, taken when the call arrives rather than at connect time
+export interface KetuaAppState {
+  userId: string;
+  // Who per-user history is stored under: the Firebase uid, or the device id when signed out
+  ownerId: string;
+  location: LatLng | null;
+  activeQuest: Quest | null;
+  destinationChoice: DestinationChoice | null;
+  communityEvents: CommunityEvent[];
+  currentMood: string;
+  moodConfidence: number;
+  sosIncident: SosIncident | null;
+  mobilityProfile: MobilityProfile;
+}
+
+// What tools are allowed to change in the app
+export interface KetuaToolActions {
+  // Throws when the camera is off
+  captureCameraFrame: () => string;
+  // Goes through the ledger rules, so repeats and anything over the daily cap earn nothing
+  awardPoints: (request: AwardRequest) => void;
+  showScamAnalysis: (analysis: ScamAnalysis) => void;
+  startQuest: (quest: Quest) => void;
+  // Shows (or clears, with null) the on-screen picker for ambiguous destinations
+  offerDestinations: (choice: DestinationChoice | null) => void;
+  setMood: (mood: string, confidence: number) => void;
+  sos: {
+    trigger: (trigger: SosTrigger, details?: { severity?: SosSeverity; reason?: string }) => void;
+    sendNow: () => void;
+    cancel: () => void;
+    resolve: () => void;
+  };
+}
+
+export interface ToolContext {
+  db: Database;
+  ai: GoogleGenAI;
+  scamChecker: ReturnType<typeof createScamChecker>;
+  getState: () => KetuaAppState;
+  actions: KetuaToolActions;
+}
+
+export type RawToolArgs = Record<string, unknown>;
+
+export interface KetuaToolDefinition<Args> {
+  declaration: FunctionDeclaration & { name: string };
+  // Turns the model's loosely typed args into what the handler expects, filling in defaults
+  parseArgs: (raw: RawToolArgs) => Args;
+  handler: (args: Args, ctx: ToolContext) => Promise<object>;
+  // Needs the camera, so it is left out of text chat
+  voiceOnly?: boolean;
+  // Background calls that are not part of the conversation transcript
+  silent?: boolean;
+}
+
+export interface KetuaTool {
+  name: string;
+  declaration: FunctionDeclaration;
+  voiceOnly: boolean;
+  silent: boolean;
+  run: (raw: RawToolArgs, ctx: ToolContext) => Promise<object>;
+}
+
+export const defineTool = <Args>(definition: KetuaToolDefinition<Args>): KetuaTool => ({
+  name: definition.declaration.name,
+  declaration: definition.declaration,
+  voiceOnly: !!definition.voiceOnly,
+  silent: !!definition.silent,
+  run: (raw, ctx) => definition.handler(definition.parseArgs(raw), ctx)
+});
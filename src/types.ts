@@ -0,0 +1,126 @@
+// --- Shared Quest & Event Types ---
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface CheckInPhoto {
+  id: string;
+  userId: string;
+  userName: string;
+  photoUrl: string;
+  timestamp: number;
+  location: { lat: number; lng: number };
+}
+
+export interface Quest {
+  id: string;
+  title: string;
+  description: string;
+  destination: { lat: number; lng: number; name: string };
+  waypoints: Waypoint[];
+  reward: string;
+  distance: number;
+  duration: number;
+  progress: number;
+  status: 'active' | 'completed' | 'available';
+  type: 'exploration' | 'community' | 'emergency' | 'fitness';
+  checkIns?: CheckInPhoto[];
+  navigationSteps?: NavigationStep[];
+  currentStepIndex?: number;
+  // The Directions route the distance, duration and proximity checks are based on
+  route?: QuestRoute;
+  // Missing on older quests, which are all walking
+  travelMode?: QuestTravelMode;
+  // Stairs and steep slopes on the route, for users with a mobility aid
+  accessibilityNotes?: string[];
+}
+
+export type QuestTravelMode = 'walking' | 'transit';
+
+export type StepTravelMode = 'walking' | 'bus' | 'mrt' | 'transit';
+
+export interface TransitDetails {
+  vehicle: Exclude<StepTravelMode, 'walking'>;
+  // Short name people use, e.g. "851" or "NE"
+  line: string;
+  lineName: string;
+  headsign: string;
+  departureStop: string;
+  arrivalStop: string;
+  departureLocation: LatLng;
+  arrivalLocation: LatLng;
+  numStops: number;
+}
+
+export interface NavigationStep {
+  instruction: string;
+  distance: string;
+  duration: string;
+  // Geometry used by the navigation engine to follow the user through the step
+  distanceM?: number;
+  endLocation?: LatLng;
+  path?: LatLng[];
+  travelMode?: StepTravelMode;
+  transit?: TransitDetails;
+}
+
+export interface QuestRoute {
+  path: LatLng[];
+  distanceM: number;
+  durationS: number;
+  // On transit routes, the part the user actually walks
+  walkingDistanceM?: number;
+}
+
+export interface Waypoint {
+  id: string;
+  lat: number;
+  lng: number;
+  name: string;
+  completed: boolean;
+  // Left off the route by a reroute, so no longer expected; reaching it still counts
+  skipped?: boolean;
+  // 'rest' points are benches and void decks for users who need to sit down along the way
+  type: 'checkpoint' | 'task' | 'bonus' | 'rest';
+  description?: string;
+  checkIns?: CheckInPhoto[];
+}
+
+export interface CommunityEvent {
+  id: string;
+  name: string;
+  description: string;
+  lat: number;
+  lng: number;
+  time: string;
+  date: string;
+  reward: string;
+  category: 'social' | 'fitness' | 'arts' | 'education' | 'food';
+  participants: string[];
+  maxParticipants?: number;
+  imageUrl?: string;
+  checkIns: CheckInPhoto[];
+}
+
+// A Places match Ketua offers when a destination name is ambiguous
+export interface DestinationCandidate {
+  placeId: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  distanceKm: number;
+  rating?: number;
+  ratingCount?: number;
+  openNow?: boolean;
+  types: string[];
+}
+
+export interface DestinationChoice {
+  query: string;
+  candidates: DestinationCandidate[];
+  travelMode?: QuestTravelMode | 'auto';
+  createdAt: number;
+}
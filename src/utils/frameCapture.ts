@@ -0,0 +1,20 @@
+// --- Video Frame Capture ---
+// Draws the current video frame onto a canvas and returns it as base64 JPEG
+// (without the data: prefix), or null when the video has no frame yet.
+
+export const captureVideoFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  quality: number = 0.6
+): string | null => {
+  if (video.readyState !== 4 || video.videoWidth === 0) return null;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  ctx.drawImage(video, 0, 0);
+
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+};
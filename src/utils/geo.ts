@@ -0,0 +1,111 @@
+import { LatLng } from '../types';
+
+// --- Geodesy Helpers ---
+// Distances are in metres and bearings in degrees clockwise from north.
+
+export const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance between two points
+export const haversineDistance = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Initial bearing from a to b, 0-360
+export const bearing = (a: LatLng, b: LatLng): number => {
+  const lat1 = toRadians(a.lat);
+  const lat2 = toRadians(b.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+export const polylineLength = (path: LatLng[]): number =>
+  path.reduce((total, point, index) => (index === 0 ? 0 : total + haversineDistance(path[index - 1], point)), 0);
+
+// The point a given distance along the line, clamped to its ends
+export const pointAlongPolyline = (path: LatLng[], metres: number): LatLng | null => {
+  if (path.length === 0) return null;
+  let remaining = Math.max(0, metres);
+  for (let i = 0; i < path.length - 1; i++) {
+    const segmentLength = haversineDistance(path[i], path[i + 1]);
+    if (remaining <= segmentLength && segmentLength > 0) {
+      const t = remaining / segmentLength;
+      return {
+        lat: path[i].lat + (path[i + 1].lat - path[i].lat) * t,
+        lng: path[i].lng + (path[i + 1].lng - path[i].lng) * t
+      };
+    }
+    remaining -= segmentLength;
+  }
+  return path[path.length - 1];
+};
+
+export interface PolylineProjection {
+  // Shortest distance from the point to the line
+  distance: number;
+  // How far along the line the closest point is
+  along: number;
+  segmentIndex: number;
+  closest: LatLng;
+}
+
+// Projects onto each segment in a local flat-earth frame, which is accurate at walking scale
+export const projectOntoPolyline = (point: LatLng, path: LatLng[]): PolylineProjection | null => {
+  if (path.length === 0) return null;
+  if (path.length === 1) {
+    return { distance: haversineDistance(point, path[0]), along: 0, segmentIndex: 0, closest: path[0] };
+  }
+
+  const metresPerDegLat = (Math.PI / 180) * EARTH_RADIUS_M;
+  const metresPerDegLng = metresPerDegLat * Math.cos(toRadians(point.lat));
+
+  let best: PolylineProjection | null = null;
+  let travelled = 0;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const start = path[i];
+    const end = path[i + 1];
+    const segX = (end.lng - start.lng) * metresPerDegLng;
+    const segY = (end.lat - start.lat) * metresPerDegLat;
+    const ptX = (point.lng - start.lng) * metresPerDegLng;
+    const ptY = (point.lat - start.lat) * metresPerDegLat;
+    const segLengthSq = segX * segX + segY * segY;
+    const t = segLengthSq === 0 ? 0 : Math.max(0, Math.min(1, (ptX * segX + ptY * segY) / segLengthSq));
+
+    const closest = { lat: start.lat + (end.lat - start.lat) * t, lng: start.lng + (end.lng - start.lng) * t };
+    const distance = haversineDistance(point, closest);
+    const segmentLength = haversineDistance(start, end);
+
+    if (!best || distance < best.distance) {
+      best = { distance, along: travelled + segmentLength * t, segmentIndex: i, closest };
+    }
+    travelled += segmentLength;
+  }
+
+  return best;
+};
+
+export const distanceToPolyline = (point: LatLng, path: LatLng[]): number =>
+  projectOntoPolyline(point, path)?.distance ?? Infinity;
+
+// Walking distance between two points following the route, never less than the straight line.
+// Falls back to the straight line when there is no route.
+export const distanceAlongRoute = (from: LatLng, to: LatLng, path?: LatLng[]): number => {
+  const direct = haversineDistance(from, to);
+  if (!path || path.length < 2) return direct;
+
+  const fromProjection = projectOntoPolyline(from, path);
+  const toProjection = projectOntoPolyline(to, path);
+  if (!fromProjection || !toProjection) return direct;
+
+  const alongRoute = Math.abs(toProjection.along - fromProjection.along) + fromProjection.distance + toProjection.distance;
+  return Math.max(direct, alongRoute);
+};
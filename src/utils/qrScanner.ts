@@ -0,0 +1,61 @@
+// --- QR Code Scanner ---
+// Opens the back camera into a video element and checks a frame every intervalMs with
+// the browser's BarcodeDetector. Used for adding friends by Kampung ID and for
+// merchants redeeming reward vouchers.
+
+export interface QrScanner {
+  stop: () => void;
+}
+
+export const isQrScanningSupported = () => typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+// onCode returns true once it has accepted a code, which stops the scanning (the camera stays on)
+export const startQrScanner = async (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  onCode: (value: string) => boolean,
+  intervalMs = 500
+): Promise<QrScanner> => {
+  if (!isQrScanningSupported()) {
+    throw new Error('QR scanning not supported on this browser');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+    audio: false
+  });
+  video.srcObject = stream;
+  await video.play();
+
+  const ctx = canvas.getContext('2d');
+  const barcodeDetector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+  let detecting = false;
+
+  const interval = window.setInterval(async () => {
+    // Skip a tick rather than pile up detections on a slow phone
+    if (video.readyState !== 4 || detecting) return;
+    detecting = true;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx?.drawImage(video, 0, 0);
+
+    try {
+      const barcodes = await barcodeDetector.detect(canvas);
+      if (barcodes.length > 0 && onCode(barcodes[0].rawValue)) {
+        clearInterval(interval);
+      }
+    } catch (err) {
+      console.error('QR scan error:', err);
+    } finally {
+      detecting = false;
+    }
+  }, intervalMs);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    }
+  };
+};
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { textToBase64 } from './textEncoding';
+
+describe('textToBase64', () => {
+  it('encodes non-Latin-1 place names as UTF-8', () => {
+    const text = 'Reached 宏茂桥 and முருகன் கோவில்';
+    expect(Buffer.from(textToBase64(text), 'base64').toString('utf8')).toBe(text);
+  });
+});
@@ -0,0 +1,11 @@
+// --- Text Encoding ---
+
+// Base64 of the UTF-8 bytes. Plain btoa throws on anything outside Latin-1,
+// such as Chinese or Tamil place names.
+export const textToBase64 = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};